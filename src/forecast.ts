@@ -0,0 +1,39 @@
+import { MarkdownTable } from "./markdown";
+import "./helpers/date-utils";
+
+export interface ForecastDay {
+  date: Date;
+  reps: number;
+}
+
+export interface Forecast {
+  days: ForecastDay[];
+  // reps which are already due before the forecast starts
+  backlog: number;
+  total: number;
+}
+
+export class Forecaster {
+  // Runs the queue scheduler forward over a clone of the table assuming
+  // every due rep gets processed with "next repetition" on its due day.
+  static run(table: MarkdownTable, days: number): Forecast {
+    const sim = table.clone();
+    const start = sim.getToday();
+    const backlog = sim.rows.filter((row) => row.isDue(start)).length;
+    const forecast: Forecast = { days: [], backlog, total: 0 };
+
+    for (let i = 0; i < days; i++) {
+      const date = start.addDays(i);
+      sim.setClock(date);
+      const due = sim.rows.filter((row) => row.isDue(date));
+      for (const rep of due) {
+        sim.removeRow(rep);
+        sim.schedule(rep);
+      }
+      forecast.days.push({ date, reps: due.length });
+      forecast.total += due.length;
+    }
+
+    return forecast;
+  }
+}
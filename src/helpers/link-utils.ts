@@ -28,15 +28,21 @@ export class LinkEx extends ObsidianUtilsBase {
     return link;
   }
 
+  // The link target without the display text of an aliased link.
+  static removeAlias(link: string) {
+    const idx = link.indexOf("|");
+    return idx === -1 ? link : link.substr(0, idx);
+  }
+
   // TODO:
   exists(link: string, source: string): boolean {
-    let path = getLinkpath(link);
+    let path = getLinkpath(LinkEx.removeAlias(link));
     let file = this.app.metadataCache.getFirstLinkpathDest(path, source);
     return file instanceof TFile;
   }
 
   createAbsoluteLink(linktext: string, source: string): string | null {
-    const { path, subpath } = parseLinktext(linktext);
+    const { path, subpath } = parseLinktext(LinkEx.removeAlias(linktext));
     const file = this.app.metadataCache.getFirstLinkpathDest(path, source);
     // has to be set to lower case
     // because obsidian link cache
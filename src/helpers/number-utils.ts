@@ -1,6 +1,9 @@
 declare global {
   interface Number {
     isValidAFactor(): boolean;
+    isValidEase(): boolean;
+    isValidRetention(): boolean;
+    isValidMaxReps(): boolean;
     round(places: number): number;
     isValidInterval(): boolean;
     isValidPriority(): boolean;
@@ -22,6 +25,21 @@ Number.prototype.isValidAFactor = function (): boolean {
   return !isNaN(afactor) && afactor >= 0;
 };
 
+Number.prototype.isValidEase = function (): boolean {
+  const ease = Number(this);
+  return !isNaN(ease) && ease >= 1.3;
+};
+
+Number.prototype.isValidRetention = function (): boolean {
+  const retention = Number(this);
+  return !isNaN(retention) && retention > 0 && retention < 1;
+};
+
+Number.prototype.isValidMaxReps = function (): boolean {
+  const maxReps = Number(this);
+  return Number.isInteger(maxReps) && maxReps > 0;
+};
+
 Number.prototype.isValidInterval = function (): boolean {
   const interval = Number(this);
   return !isNaN(interval) && interval >= 0;
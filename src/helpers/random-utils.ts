@@ -0,0 +1,22 @@
+export class RandomUtils {
+  // FNV-1a hash of the string mapped into (0, 1)
+  static uniform(str: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+      hash ^= str.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return ((hash >>> 0) + 1) / 4294967297;
+  }
+
+  // Sort key for weighted random sampling without replacement
+  // (Efraimidis-Spirakis). Sorting by descending key gives a
+  // random permutation where heavier items tend to come first.
+  static weightedKey(seed: string, weight: number): number {
+    return Math.pow(RandomUtils.uniform(seed), 1 / Math.max(weight, 1e-6));
+  }
+
+  static createSeed(): string {
+    return Math.random().toString(36).substr(2);
+  }
+}
@@ -0,0 +1,177 @@
+import { DateParser } from "./parse-date";
+import "./date-utils";
+
+type RecurrenceKind =
+  | "days"
+  | "weeks"
+  | "months"
+  | "years"
+  | "weekdays"
+  | "monthday"
+  | "natural";
+
+const Units: Record<string, RecurrenceKind> = {
+  day: "days",
+  days: "days",
+  week: "weeks",
+  weeks: "weeks",
+  month: "months",
+  months: "months",
+  year: "years",
+  years: "years",
+};
+
+const Adverbs: Record<string, RecurrenceKind> = {
+  daily: "days",
+  weekly: "weeks",
+  monthly: "months",
+  yearly: "years",
+  annually: "years",
+};
+
+const Weekdays = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// Calendar based recurrence rules such as "every monday",
+// "every 2 weeks" or "monthly on 1".
+export class RecurrenceRule {
+  readonly kind: RecurrenceKind;
+  readonly every: number;
+  readonly weekdays: number[];
+  readonly monthDay: number;
+  readonly text: string;
+
+  private constructor(
+    kind: RecurrenceKind,
+    every: number = 1,
+    weekdays: number[] = [],
+    monthDay: number = 1,
+    text: string = ""
+  ) {
+    this.kind = kind;
+    this.every = every;
+    this.weekdays = weekdays;
+    this.monthDay = monthDay;
+    this.text = text;
+  }
+
+  // Natural language rules are only accepted if the date parser
+  // understands them, so it has to be passed in to parse those.
+  static parse(rule: string, dates?: DateParser): RecurrenceRule | null {
+    const text = (rule ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+
+    let match = text.match(
+      /^(?:monthly|every month) on (?:the )?(\d{1,2})(?:st|nd|rd|th)?$/
+    );
+    if (match) {
+      const day = Number(match[1]);
+      return day >= 1 && day <= 31
+        ? new RecurrenceRule("monthday", 1, [], day)
+        : null;
+    }
+
+    if (Adverbs[text]) return new RecurrenceRule(Adverbs[text]);
+
+    match = text.match(/^every (?:(\d+) )?(\w+)$/);
+    if (match && Units[match[2]]) {
+      const every = match[1] ? Number(match[1]) : 1;
+      return every > 0 ? new RecurrenceRule(Units[match[2]], every) : null;
+    }
+
+    if (!text.startsWith("every ")) return null;
+
+    const rest = text.substr("every ".length);
+    const days = rest
+      .split(/\s*(?:,|\band\b)\s*/)
+      .filter((day) => day.length > 0)
+      .map((day) =>
+        day.length >= 3 ? Weekdays.findIndex((w) => w.startsWith(day)) : -1
+      );
+    if (days.length > 0 && days.every((day) => day !== -1)) {
+      return new RecurrenceRule("weekdays", 1, days);
+    }
+
+    // Leave anything else to the natural language date parser
+    const natural = new RecurrenceRule("natural", 1, [], 1, rest);
+    const date = dates?.parseDate(natural.getNaturalText());
+    return date && date.isValid() && date.getFullYear() > 1970 ? natural : null;
+  }
+
+  static isValid(rule: string, dates?: DateParser) {
+    return RecurrenceRule.parse(rule, dates) !== null;
+  }
+
+  private getNaturalText() {
+    return this.text.startsWith("next ") ? this.text : "next " + this.text;
+  }
+
+  // Returns the next occurrence after today.
+  // Interval rules continue from the last occurrence if there was one.
+  next(last: Date, today: Date, dates: DateParser): Date | null {
+    switch (this.kind) {
+      case "days":
+      case "weeks":
+      case "months":
+      case "years": {
+        let date =
+          last && last.isValid() && last.getFullYear() > 1970
+            ? new Date(last)
+            : new Date(today);
+        do {
+          date = this.advance(date);
+        } while (date <= today);
+        return date;
+      }
+      case "weekdays": {
+        for (let offset = 1; offset <= 7; offset++) {
+          const date = today.addDays(offset);
+          if (this.weekdays.includes(date.getDay())) return date;
+        }
+        return null;
+      }
+      case "monthday": {
+        for (let months = 0; months <= 1; months++) {
+          const date = new Date(today);
+          date.setDate(1);
+          date.setMonth(date.getMonth() + months);
+          const monthLength = new Date(
+            date.getFullYear(),
+            date.getMonth() + 1,
+            0
+          ).getDate();
+          date.setDate(Math.min(this.monthDay, monthLength));
+          if (date > today) return date;
+        }
+        return null;
+      }
+      case "natural": {
+        const date = dates.parseDate(this.getNaturalText());
+        return date.isValid() && date > today ? date : null;
+      }
+    }
+  }
+
+  private advance(date: Date) {
+    const next = new Date(date);
+    switch (this.kind) {
+      case "days":
+        return next.addDays(this.every);
+      case "weeks":
+        return next.addDays(7 * this.every);
+      case "months":
+        next.setMonth(next.getMonth() + this.every);
+        return next;
+      case "years":
+        next.setFullYear(next.getFullYear() + this.every);
+        return next;
+    }
+    return next;
+  }
+}
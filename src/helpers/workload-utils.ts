@@ -0,0 +1,59 @@
+import { MarkdownTableRow } from "../markdown";
+import "./date-utils";
+
+export class WorkloadBalancer {
+  // how far to look for a day with room before giving up
+  private static readonly maxSearchDays = 365;
+  private maxRepsPerDay: number;
+  private counts: Map<string, number> = new Map();
+  private today: Date;
+
+  constructor(
+    maxRepsPerDay: number,
+    rows: MarkdownTableRow[],
+    today: Date = new Date()
+  ) {
+    this.maxRepsPerDay = maxRepsPerDay;
+    this.today = today;
+    for (const row of rows) this.increment(row.nextRepDate);
+  }
+
+  // Overdue reps count towards today's workload.
+  private key(date: Date) {
+    return (date < this.today ? this.today : date).formatYYMMDD();
+  }
+
+  private count(date: Date) {
+    return this.counts.get(this.key(date)) ?? 0;
+  }
+
+  private increment(date: Date) {
+    this.counts.set(this.key(date), this.count(date) + 1);
+  }
+
+  // Returns the closest day to date (but not before earliest)
+  // with room for another rep and counts the rep towards it.
+  place(date: Date, earliest: Date = this.today): Date {
+    const start = date < earliest ? earliest : date;
+    for (let offset = 0; offset <= WorkloadBalancer.maxSearchDays; offset++) {
+      for (const candidate of [start.addDays(offset), start.addDays(-offset)]) {
+        if (candidate < earliest && offset !== 0) continue;
+        if (this.count(candidate) < this.maxRepsPerDay) {
+          const placed = offset === 0 ? start : candidate;
+          this.increment(placed);
+          return placed;
+        }
+      }
+    }
+    this.increment(start);
+    return start;
+  }
+
+  // Randomly shifts longer intervals by up to 5% so reps that were
+  // scheduled together drift apart over time.
+  static fuzz(interval: number): number {
+    if (interval < 3) return interval;
+    const range = Math.max(1, Math.round(interval * 0.05));
+    return interval + Math.round((Math.random() * 2 - 1) * range);
+  }
+}
@@ -0,0 +1,128 @@
+type YamlScalar = string | number | boolean | Date;
+export type YamlValue = YamlScalar | YamlValue[] | { [key: string]: YamlValue };
+
+// A top level key of a yaml document with its raw lines, including
+// nested values and the comments which follow it.
+interface YamlBlock {
+  key?: string;
+  lines: string[];
+}
+
+export class YamlUtils {
+  private static scalar(value: YamlScalar) {
+    if (value instanceof Date) return JSON.stringify(value.toISOString());
+    return typeof value === "string" ? JSON.stringify(value) : String(value);
+  }
+
+  private static key(key: string) {
+    return /^[\w][\w .-]*$/.test(key) ? key : JSON.stringify(key);
+  }
+
+  private static isEmpty(value: YamlValue) {
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === "object" && !(value instanceof Date))
+      return Object.keys(value).length === 0;
+    return false;
+  }
+
+  // Lists and maps are written in block style with two space indents.
+  static toLines(key: string, value: YamlValue, indent = ""): string[] {
+    const prefix = `${indent}${YamlUtils.key(key)}:`;
+    if (typeof value !== "object" || value instanceof Date)
+      return [`${prefix} ${YamlUtils.scalar(value)}`];
+    if (YamlUtils.isEmpty(value))
+      return [`${prefix} ${Array.isArray(value) ? "[]" : "{}"}`];
+    return [prefix, ...YamlUtils.nested(value, indent + "  ")];
+  }
+
+  private static nested(value: YamlValue, indent: string): string[] {
+    if (!Array.isArray(value)) {
+      const lines: string[] = [];
+      for (const [key, item] of Object.entries(value))
+        lines.push(...YamlUtils.toLines(key, item, indent));
+      return lines;
+    }
+
+    const lines: string[] = [];
+    for (const item of value) {
+      if (typeof item !== "object" || item instanceof Date) {
+        lines.push(`${indent}- ${YamlUtils.scalar(item)}`);
+      } else if (YamlUtils.isEmpty(item)) {
+        lines.push(`${indent}- ${Array.isArray(item) ? "[]" : "{}"}`);
+      } else {
+        // the first line of the item goes after the dash
+        const itemLines = YamlUtils.nested(item, indent + "  ");
+        lines.push(`${indent}- ${itemLines[0].trim()}`, ...itemLines.slice(1));
+      }
+    }
+    return lines;
+  }
+
+  static toYaml(data: Record<string, YamlValue>) {
+    const lines: string[] = [];
+    for (const [key, value] of Object.entries(data))
+      lines.push(...YamlUtils.toLines(key, value));
+    return ["---", ...lines, "---"].join("\n");
+  }
+
+  // Splits a note into its raw frontmatter lines and the text after them.
+  // The lines are undefined if the note has no frontmatter.
+  static splitFrontMatter(text: string): { lines?: string[]; body: string } {
+    const match = text.match(/^---\r?\n([\s\S]*?\r?\n)?---(\r?\n|$)/);
+    if (!match) return { body: text };
+    const yaml = (match[1] ?? "").replace(/\r?\n$/, "");
+    return {
+      lines: yaml === "" ? [] : yaml.split(/\r?\n/),
+      body: text.slice(match[0].length),
+    };
+  }
+
+  private static splitBlocks(lines: string[]): YamlBlock[] {
+    const blocks: YamlBlock[] = [{ lines: [] }];
+    for (const line of lines) {
+      // unindented list items belong to the key above them
+      const match = line.match(
+        /^(?!-(\s|$))(["']?)([^\s#:"'][^:]*?)\2\s*:(\s|$)/
+      );
+      if (match) blocks.push({ key: match[3], lines: [line] });
+      else blocks[blocks.length - 1].lines.push(line);
+    }
+    return blocks;
+  }
+
+  // Rewrites the owned keys of the raw yaml lines with the values in data,
+  // keeping every other key, comment and the formatting as it was.
+  // Owned keys which are missing from data get removed.
+  static merge(
+    rawLines: string[],
+    data: Record<string, YamlValue>,
+    ownedKeys: string[]
+  ): string[] {
+    const owned = new Set([...ownedKeys, ...Object.keys(data)]);
+    const written = new Set<string>();
+    const merged: string[] = [];
+
+    for (const block of YamlUtils.splitBlocks(rawLines)) {
+      if (!block.key || !owned.has(block.key)) {
+        merged.push(...block.lines);
+        continue;
+      }
+
+      if (block.key in data && !written.has(block.key)) {
+        merged.push(...YamlUtils.toLines(block.key, data[block.key]));
+        written.add(block.key);
+      }
+      // keep comments and blank lines after the replaced value
+      merged.push(
+        ...block.lines
+          .slice(1)
+          .filter((line) => line.trim() === "" || /^#/.test(line))
+      );
+    }
+
+    for (const [key, value] of Object.entries(data)) {
+      if (!written.has(key)) merged.push(...YamlUtils.toLines(key, value));
+    }
+    return merged;
+  }
+}
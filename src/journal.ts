@@ -0,0 +1,170 @@
+import IW from "./main";
+import { MarkdownTable } from "./markdown";
+import { Queue } from "./queue";
+import { LogTo } from "./logger";
+import { ReviewEntry } from "./review-log";
+
+// A queue before and after an action, both tables are full
+// copies including the queue settings and the archive.
+export interface QueueChange {
+  queuePath: string;
+  before: MarkdownTable;
+  after: MarkdownTable;
+}
+
+// An entry the action appended to the review log of a queue.
+export interface LoggedReview {
+  queuePath: string;
+  entry: ReviewEntry;
+}
+
+interface JournalEntry {
+  action: string;
+  // moving a rep changes two queues at once
+  changes: QueueChange[];
+  reviews: LoggedReview[];
+}
+
+// Records the state of the queues changed by each action during this
+// session, so that the action can be undone and redone again.
+export class Journal {
+  // entries hold copies of whole queues, so keep fewer of them
+  private static readonly maxEntries = 20;
+  private plugin: IW;
+  private undoStack: JournalEntry[] = [];
+  private redoStack: JournalEntry[] = [];
+
+  constructor(plugin: IW) {
+    this.plugin = plugin;
+  }
+
+  record(action: string, changes: QueueChange[], reviews: LoggedReview[] = []) {
+    const changed = changes.filter(
+      (change) => !Journal.isUnchanged(change.before, change.after)
+    );
+    if (changed.length === 0) return;
+
+    this.undoStack.push({ action, changes: changed, reviews });
+    if (this.undoStack.length > Journal.maxEntries) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  async undo() {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      LogTo.Debug("Nothing to undo.", true);
+      return;
+    }
+
+    if (await this.apply(entry, true)) {
+      this.redoStack.push(entry);
+      LogTo.Console(`Undid ${entry.action}.`, true);
+    } else this.undoStack.push(entry);
+  }
+
+  async redo() {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      LogTo.Debug("Nothing to redo.", true);
+      return;
+    }
+
+    if (await this.apply(entry, false)) {
+      this.undoStack.push(entry);
+      LogTo.Console(`Redid ${entry.action}.`, true);
+    } else this.redoStack.push(entry);
+  }
+
+  // Puts the queues back into the state from before (undo) or after (redo)
+  // the action. Only what the action changed is put back, so changes made
+  // to the queues since are kept.
+  private async apply(entry: JournalEntry, undo: boolean): Promise<boolean> {
+    // load every queue first so that nothing is written if one is missing
+    const loaded: [Queue, MarkdownTable, QueueChange][] = [];
+    for (const change of entry.changes) {
+      const queue = new Queue(this.plugin, change.queuePath);
+      const table = await queue.loadTable();
+      if (!table) {
+        LogTo.Console(`Failed to load queue: ${change.queuePath}`, true);
+        return false;
+      }
+      loaded.push([queue, table, change]);
+    }
+
+    for (const [queue, table, { before, after }] of loaded) {
+      if (undo) Journal.revert(table, after, before);
+      else Journal.revert(table, before, after);
+      await queue.writeQueueTable(table);
+    }
+
+    // the review log only holds reviews which are in effect
+    for (const { queuePath, entry: review } of entry.reviews) {
+      if (undo) await this.plugin.reviewLog.remove(queuePath, review);
+      else await this.plugin.reviewLog.restore(queuePath, review);
+    }
+    await this.plugin.updateStatusBar();
+    return true;
+  }
+
+  // Changes the settings, rows and archived rows of the table
+  // which differ between the from and to states to the to state.
+  private static revert(
+    table: MarkdownTable,
+    from: MarkdownTable,
+    to: MarkdownTable
+  ) {
+    if (Journal.settingsDiffer(from, to)) table.copySettings(to);
+
+    const newRows = new Map(to.rows.map((row) => [row.link, row]));
+    for (const link of Journal.changedLinks(from, to)) {
+      table.rows = table.rows.filter((row) => row.link !== link);
+      if (newRows.has(link)) table.addRow(newRows.get(link).clone());
+    }
+
+    const oldArchive = new Set(from.archive.map((row) => row.serialize()));
+    const newArchive = new Set(to.archive.map((row) => row.serialize()));
+    const kept = table.archive.filter(
+      (row) =>
+        !oldArchive.has(row.serialize()) || newArchive.has(row.serialize())
+    );
+    const keptKeys = new Set(kept.map((row) => row.serialize()));
+    table.archive = [
+      ...kept,
+      ...to.archive
+        .filter(
+          (row) =>
+            !oldArchive.has(row.serialize()) && !keptKeys.has(row.serialize())
+        )
+        .map((row) => row.clone()),
+    ];
+  }
+
+  private static isUnchanged(before: MarkdownTable, after: MarkdownTable) {
+    const oldArchive = before.archive.map((row) => row.serialize()).sort();
+    const newArchive = after.archive.map((row) => row.serialize()).sort();
+    return (
+      !Journal.settingsDiffer(before, after) &&
+      Journal.changedLinks(before, after).length === 0 &&
+      JSON.stringify(oldArchive) === JSON.stringify(newArchive)
+    );
+  }
+
+  private static settingsDiffer(a: MarkdownTable, b: MarkdownTable) {
+    return (
+      JSON.stringify(a.getFrontMatter()) !== JSON.stringify(b.getFrontMatter())
+    );
+  }
+
+  // Links of the rows which were added, removed or changed.
+  private static changedLinks(from: MarkdownTable, to: MarkdownTable) {
+    const oldRows = new Map(from.rows.map((row) => [row.link, row]));
+    const newRows = new Map(to.rows.map((row) => [row.link, row]));
+    return Array.from(new Set([...oldRows.keys(), ...newRows.keys()])).filter(
+      (link) => {
+        const oldRow = oldRows.get(link);
+        const newRow = newRows.get(link);
+        return !(oldRow && newRow && oldRow.equals(newRow));
+      }
+    );
+  }
+}
@@ -10,7 +10,7 @@ import {
   normalizePath,
   MarkdownView, Editor,
 } from "obsidian";
-import { Queue } from "./queue";
+import { Queue, ScheduledRep } from "./queue";
 import { LogTo } from "./logger";
 import {
   ReviewFileModal,
@@ -31,6 +31,22 @@ import { NextRepScheduler } from "./views/next-rep-schedule";
 import { EditDataModal } from "./views/edit-data";
 import { DateParser } from "./helpers/parse-date";
 import { CreateQueueModal } from "./views/create-queue";
+import { GradeModal } from "./views/grade-modal";
+import { SchedulerRegistry } from "./scheduler-registry";
+import { SchedulerDefinition } from "./scheduler";
+import { ForecastModal } from "./views/forecast-modal";
+import { RestoreArchivedModal } from "./views/restore-archived";
+import { RandomUtils } from "./helpers/random-utils";
+import { FrontMatterStorage, TableStorage } from "./storage";
+import { QueueCache } from "./queue-cache";
+import { RenameTracker } from "./rename-tracker";
+import { Journal } from "./journal";
+import { ReviewLog } from "./review-log";
+import { StatisticsView, StatisticsViewType } from "./views/statistics-view";
+import { QueueView, QueueViewType } from "./views/queue-view";
+import { CalendarView, CalendarViewType } from "./views/calendar-view";
+import { HeatmapLanguage, HeatmapRenderer } from "./views/heatmap";
+import { QueueBlockLanguage, QueueBlockRenderer } from "./views/queue-block";
 
 export default class IW extends Plugin {
   public settings: IWSettings;
@@ -44,6 +60,19 @@ export default class IW extends Plugin {
   public readonly files: FileUtils = new FileUtils(this.app);
   public readonly blocks: BlockUtils = new BlockUtils(this.app);
   public readonly dates: DateParser = new DateParser(this.app);
+  public readonly schedulers: SchedulerRegistry = new SchedulerRegistry(this);
+  public readonly tableStorage: TableStorage = new TableStorage(this);
+  public readonly frontMatterStorage: FrontMatterStorage = new FrontMatterStorage(
+    this
+  );
+  public readonly queueCache: QueueCache = new QueueCache();
+  public readonly renames: RenameTracker = new RenameTracker(this);
+  public readonly journal: Journal = new Journal(this);
+  public readonly reviewLog: ReviewLog = new ReviewLog(this);
+  // seeds the weighted random ordering of queues for this session
+  public readonly sessionSeed: string = RandomUtils.createSeed();
+  // reps made current in weighted queues this session, by queue path
+  public readonly pinnedReps: Map<string, string> = new Map();
 
   private autoAddNewNotesOnCreateEvent: EventRef;
 
@@ -55,6 +84,19 @@ export default class IW extends Plugin {
     );
   }
 
+  // Public hook for other plugins to add their own schedulers.
+  // Registered schedulers can be picked in queue frontmatter with
+  // scheduler: "<name>" and in the create queue modal.
+  registerScheduler(definition: SchedulerDefinition) {
+    this.schedulers.register(definition);
+    this.queueCache.onSchedulersChanged();
+  }
+
+  unregisterScheduler(name: string) {
+    this.schedulers.unregister(name);
+    this.queueCache.onSchedulersChanged();
+  }
+
   getQueueFiles() {
     const abstractFiles = this.app.vault.getAllLoadedFiles();
     const queueFiles = abstractFiles.filter((file: TAbstractFile) => {
@@ -73,6 +115,56 @@ export default class IW extends Plugin {
     );
   }
 
+  // The queue files in the queue folder.
+  getQueuePaths(): string[] {
+    const folder = this.files.getTFolder(
+      normalizePath(this.settings.queueFolderPath)
+    );
+    if (!folder) return [];
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => this.files.isDescendantOf(file, folder))
+      .map((file) => file.path);
+  }
+
+  // Opens the view in the right sidebar or a new pane unless it is open already.
+  async activateView(type: string, sidebar: boolean = true) {
+    let leaf = this.app.workspace.getLeavesOfType(type)[0];
+    if (!leaf) {
+      leaf = sidebar
+        ? this.app.workspace.getRightLeaf(false)
+        : this.app.workspace.getLeaf(true);
+      await leaf.setViewState({ type, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  registerViews() {
+    this.registerView(
+      StatisticsViewType,
+      (leaf) => new StatisticsView(leaf, this)
+    );
+    this.registerView(QueueViewType, (leaf) => new QueueView(leaf, this));
+    this.registerView(CalendarViewType, (leaf) => new CalendarView(leaf, this));
+
+    const heatmap = new HeatmapRenderer(this);
+    this.registerMarkdownCodeBlockProcessor(HeatmapLanguage, (source, el) =>
+      heatmap.render(source, el)
+    );
+
+    const queueBlock = new QueueBlockRenderer(this);
+    this.registerMarkdownCodeBlockProcessor(
+      QueueBlockLanguage,
+      (source, el, ctx) => queueBlock.render(source, el, ctx)
+    );
+  }
+
+  async refreshQueueViews() {
+    for (const leaf of this.app.workspace.getLeavesOfType(QueueViewType)) {
+      if (leaf.view instanceof QueueView) await leaf.view.refresh();
+    }
+  }
+
   async onload() {
     LogTo.Console("Loading...");
     await this.loadConfig();
@@ -82,6 +174,7 @@ export default class IW extends Plugin {
     if (!naturalLanguageDates)
       return;
     this.addSettingTab(new IWSettingsTab(this.app, this));
+    this.registerViews();
     this.registerCommands();
     this.subscribeToEvents();
   }
@@ -175,6 +268,7 @@ export default class IW extends Plugin {
     if (file && file.length > 0) {
       this.queue = new Queue(this, file);
       await this.updateStatusBar();
+      await this.refreshQueueViews();
       LogTo.Console("Loaded Queue: " + file, true);
     } else {
       LogTo.Console("Failed to load queue.", true);
@@ -209,6 +303,55 @@ export default class IW extends Plugin {
       hotkeys: [],
     });
 
+    this.addCommand({
+      id: "rebalance-queue-priorities",
+      name: "Rebalance priorities.",
+      callback: async () => await this.queue.rebalancePriorities(),
+      hotkeys: [],
+    });
+
+    this.addCommand({
+      id: "restore-archived-rep",
+      name: "Restore archived rep.",
+      callback: async () => {
+        const table = await this.queue.loadTable();
+        if (!table || table.archive.length === 0) {
+          LogTo.Debug("No archived repetitions!", true);
+          return;
+        }
+        new RestoreArchivedModal(this, table).open();
+      },
+      hotkeys: [],
+    });
+
+    this.addCommand({
+      id: "open-queue-sidebar",
+      name: "Open queue in sidebar.",
+      callback: async () => await this.activateView(QueueViewType),
+      hotkeys: [],
+    });
+
+    this.addCommand({
+      id: "open-rep-calendar",
+      name: "Open repetition calendar.",
+      callback: async () => await this.activateView(CalendarViewType, false),
+      hotkeys: [],
+    });
+
+    this.addCommand({
+      id: "open-queue-statistics",
+      name: "Open queue statistics.",
+      callback: async () => await this.activateView(StatisticsViewType),
+      hotkeys: [],
+    });
+
+    this.addCommand({
+      id: "forecast-queue-workload",
+      name: "Forecast queue workload.",
+      callback: () => new ForecastModal(this).open(),
+      hotkeys: [],
+    });
+
     //
     // Repetitions
 
@@ -237,9 +380,19 @@ export default class IW extends Plugin {
           LogTo.Console("No repetitions!", true);
           return;
         }
+        // schedule the rep and table which next repetition wrote,
+        // the table loaded here is out of date by then
+        const openScheduler = (scheduled?: ScheduledRep) => {
+          if (scheduled)
+            new NextRepScheduler(this, scheduled.row, scheduled.table).open();
+        };
         const currentRep = table.currentRep();
-        if (await this.queue.nextRepetition()) {
-          new NextRepScheduler(this, currentRep, table).open();
+        if (table.getRowScheduler(currentRep).graded && currentRep.isDue()) {
+          new GradeModal(this, async (grade) => {
+            openScheduler(await this.queue.nextRepetition(grade));
+          }).open();
+        } else {
+          openScheduler(await this.queue.nextRepetition());
         }
       },
     });
@@ -251,6 +404,20 @@ export default class IW extends Plugin {
       hotkeys: [],
     });
 
+    this.addCommand({
+      id: "undo-iw-action",
+      name: "Undo last IW action.",
+      callback: async () => await this.journal.undo(),
+      hotkeys: [],
+    });
+
+    this.addCommand({
+      id: "redo-iw-action",
+      name: "Redo last undone IW action.",
+      callback: async () => await this.journal.redo(),
+      hotkeys: [],
+    });
+
     this.addCommand({
       id: "edit-current-rep-data",
       name: "Edit current rep data. ",
@@ -447,6 +614,27 @@ export default class IW extends Plugin {
       this.autoAddNewNotesOnCreate();
     });
 
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) =>
+        this.frontMatterStorage.onMetadataChanged(file)
+      )
+    );
+
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => this.queueCache.onModified(file))
+    );
+
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        this.queueCache.onRenamedOrDeleted();
+        this.renames.onRenamed(file, oldPath);
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on("delete", () => this.queueCache.onRenamedOrDeleted())
+    );
+
     this.registerEvent(
       this.app.workspace.on("file-menu", (menu, file, _: string) => {
         if (file == null) {
@@ -514,5 +702,8 @@ export default class IW extends Plugin {
     LogTo.Console("Disabled and unloaded.");
     await this.removeSearchButton();
     this.unsubscribeFromEvents();
+    this.app.workspace.detachLeavesOfType(StatisticsViewType);
+    this.app.workspace.detachLeavesOfType(QueueViewType);
+    this.app.workspace.detachLeavesOfType(CalendarViewType);
   }
 }
@@ -2,53 +2,354 @@ import "./helpers/date-utils";
 import { EOL } from "os";
 import "./helpers/number-utils";
 import { LinkEx } from "./helpers/link-utils";
-import { Scheduler, SimpleScheduler, AFactorScheduler } from "./scheduler";
+import { Scheduler, SchedulerParams } from "./scheduler";
 import IW from "./main";
 import { GrayMatterFile } from "gray-matter";
 import { LogTo } from "./logger";
 import { markdownTable } from "markdown-table";
+import { RandomUtils } from "./helpers/random-utils";
+import { YamlUtils } from "./helpers/yaml-utils";
+
+// How the due reps of a queue get ordered
+export type QueueOrdering = "priority" | "weighted";
+const Orderings: QueueOrdering[] = ["priority", "weighted"];
+
+// Where the rep data of a queue is stored
+export type StorageType = "table" | "frontmatter";
+const StorageTypes: StorageType[] = ["table", "frontmatter"];
+
+// Improves the priority of due reps which keep getting postponed
+export interface AgingPolicy {
+  // priority improvement per skipped day or postponement
+  amount: number;
+  // priorities don't improve beyond this
+  floor: number;
+  lastAged?: Date;
+}
+
+// Optional per row overrides of the queue scheduler
+export interface RowOverrides {
+  scheduler?: string;
+  afactor?: number;
+  minInterval?: number;
+  maxInterval?: number;
+}
+
+const OverrideColumns: Record<keyof RowOverrides, string> = {
+  scheduler: "Scheduler",
+  afactor: "A-Factor",
+  minInterval: "Min Interval",
+  maxInterval: "Max Interval",
+};
+
+// Rows and settings of a table as they were last loaded or written
+export interface TableSnapshot {
+  rows: Map<string, MarkdownTableRow>;
+  archive: MarkdownTableRow[];
+  settings: string;
+}
 
 export class MarkdownTable {
   plugin: IW;
   scheduler: Scheduler;
-  private header = ["Link", "Priority", "Notes", "Interval", "Next Rep"];
+  private static readonly baseHeader = [
+    "Link",
+    "Priority",
+    "Notes",
+    "Interval",
+    "Next Rep",
+  ];
+  private static readonly baseAlign = ["l", "r", "l", "r", "r"];
+  // archived rows are kept in a second table below this heading
+  static readonly ArchiveHeading = "## Archive";
+  static readonly ArchivedColumn = "Archived";
+  static readonly ReasonColumn = "Reason";
+  // frontmatter keys managed by the table, any others are kept as they are
+  private static readonly ownedKeys = [
+    "scheduler",
+    "maxRepsPerDay",
+    "ordering",
+    "storage",
+    "aging",
+    "agingFloor",
+    "lastAged",
+  ];
+  // extra columns found in the header of the parsed table
+  private columns: string[] = [];
+  // user defined columns declared in the queue frontmatter
+  private customColumns: string[] = [];
+  // raw lines of the parsed file which get written back unchanged
+  private frontMatterLines: string[] = [];
+  private beforeTable: string[] = [];
+  private afterTable: string[] = [];
+  private archiveColumns: string[] = [];
+  private afterArchive: string[] = [];
   rows: MarkdownTableRow[] = [];
+  archive: MarkdownTableRow[] = [];
   removedDeleted: boolean = false;
+  // overrides the current date when simulating the queue
+  private clock?: Date;
+  ordering: QueueOrdering = "priority";
+  // link of the rep which comes first among the due reps in weighted ordering
+  pinnedLink?: string;
+  aging?: AgingPolicy;
+  storage: StorageType = "table";
+  private snapshot?: TableSnapshot;
 
   // TODO: just pass the gray matter object, replace text with contents.
   constructor(plugin: IW, frontMatter?: GrayMatterFile<string>, text?: string) {
     this.plugin = plugin;
     this.scheduler = this.createScheduler(frontMatter);
-    if (text) {
-      text = text.trim();
-      let split = text.split(/\r?\n/);
+    this.ordering = this.parseOrdering(frontMatter);
+    this.aging = this.parseAging(frontMatter);
+    this.storage = this.parseStorage(frontMatter);
+    this.customColumns = this.parseCustomColumns(frontMatter);
+    if (text) this.parse(text);
+  }
+
+  // Only the first table with the queue header gets parsed into rows,
+  // everything around it is kept so that it can be written back.
+  private parse(text: string) {
+    let split = text.trim().split(/\r?\n/);
+    if (split[0] === "---") {
       let idx = this.findYamlEnd(split);
-      if (idx !== -1)
-        // line after yaml + header
-        this.rows = this.parseRows(split.slice(idx + 1 + 2));
+      if (idx !== -1) {
+        this.frontMatterLines = split.slice(1, idx);
+        split = split.slice(idx + 1);
+      }
+    }
+
+    const archiveIdx = split.findIndex(
+      (line, i) =>
+        line.trim() === MarkdownTable.ArchiveHeading &&
+        this.findHeader(split.slice(i + 1)) !== -1
+    );
+    if (archiveIdx !== -1) {
+      this.parseArchive(split.slice(archiveIdx + 1));
+      split = split.slice(0, archiveIdx);
+    }
+
+    const headerIdx = this.findHeader(split);
+    if (headerIdx === -1) {
+      this.beforeTable = split;
+      return;
     }
+
+    const end = this.findTableEnd(split, headerIdx);
+    this.beforeTable = split.slice(0, headerIdx);
+    this.columns = this.parseHeader(split[headerIdx]);
+    this.rows = this.parseRows(split.slice(headerIdx + 2, end));
+    this.afterTable = split.slice(end);
+  }
+
+  private parseArchive(lines: string[]) {
+    const headerIdx = this.findHeader(lines);
+    const end = this.findTableEnd(lines, headerIdx);
+    this.archiveColumns = this.parseHeader(lines[headerIdx]);
+    this.archive = this.parseRows(
+      lines.slice(headerIdx + 2, end),
+      this.archiveColumns
+    );
+    this.afterArchive = lines.slice(end);
   }
 
-  removeDeleted() {
-    let queuePath = this.plugin.queue.queuePath;
-    let exists = this.rows.filter((r) =>
-      this.plugin.links.exists(r.link, queuePath)
+  private findHeader(lines: string[]) {
+    return lines.findIndex(
+      (line, i) => this.isHeader(line) && this.isAlignment(lines[i + 1])
     );
-    let removedNum = this.rows.length - exists.length;
-    this.rows = exists;
-    if (removedNum > 0) {
+  }
+
+  private findTableEnd(lines: string[], headerIdx: number) {
+    let end = headerIdx + 2;
+    while (end < lines.length && lines[end].trim().startsWith("|")) end++;
+    return end;
+  }
+
+  private isHeader(line: string) {
+    if (!line.trim().startsWith("|")) return false;
+    const cells = this.splitRow(line);
+    return cells[0] === "Link" && cells[1] === "Priority";
+  }
+
+  private isAlignment(line?: string) {
+    return (
+      line !== undefined &&
+      line.includes("-") &&
+      line.replace(/[|:\-\s]/g, "") === ""
+    );
+  }
+
+  // Follows notes which were renamed and archives the rows of notes which
+  // were really deleted. Links are resolved relative to the queue file.
+  // Links in resolved are known to exist and don't get checked again.
+  removeDeleted(queuePath: string, resolved: Set<string> = new Set()) {
+    let followed = 0;
+    let archived = 0;
+    for (const row of [...this.rows]) {
+      if (resolved.has(row.link)) continue;
+      if (this.plugin.links.exists(row.link, queuePath)) continue;
+
+      const renamed = this.plugin.renames.follow(row.link);
+      if (renamed && this.plugin.links.exists(renamed, queuePath)) {
+        row.link = renamed;
+        followed++;
+      } else {
+        this.archiveRow(row, "deleted");
+        archived++;
+      }
+    }
+
+    if (followed > 0) {
       this.removedDeleted = true;
-      LogTo.Console(`Removed ${removedNum} reps with non-existent links.`);
+      LogTo.Console(`Updated ${followed} links to renamed notes.`);
     }
+    if (archived > 0) {
+      this.removedDeleted = true;
+      LogTo.Console(`Archived ${archived} reps with non-existent links.`);
+    }
+  }
+
+  // Moves the row to the archive section of the queue.
+  archiveRow(row: MarkdownTableRow, reason: string) {
+    this.removeRow(row);
+    row.setField(MarkdownTable.ArchivedColumn, this.getToday().formatYYMMDD());
+    row.setField(MarkdownTable.ReasonColumn, reason);
+    this.archive.push(row);
+  }
+
+  // Moves an archived row back into the queue with its old data.
+  restoreRow(row: MarkdownTableRow) {
+    this.archive = this.archive.filter((r) => r !== row);
+    row.removeField(MarkdownTable.ArchivedColumn);
+    row.removeField(MarkdownTable.ReasonColumn);
+    this.addRow(row);
   }
 
   hasRowWithLink(link: string) {
-    link = LinkEx.removeBrackets(link);
-    return this.rows.some((r) => r.link === link);
+    link = LinkEx.removeAlias(LinkEx.removeBrackets(link));
+    return this.rows.some((r) => LinkEx.removeAlias(r.link) === link);
   }
 
-  schedule(rep: MarkdownTableRow) {
-    this.scheduler.schedule(this, rep);
+  schedule(rep: MarkdownTableRow, grade?: number) {
+    const scheduler = this.getRowScheduler(rep);
+    scheduler.schedule(this, rep, grade);
+    if (!this.clampInterval(rep)) return;
+
+    // The scheduler balanced the unclamped date, so balance the clamped one.
+    this.rows = this.rows.filter((row) => row !== rep);
+    const minInterval = rep.getOverrides().minInterval ?? 1;
+    const earliest = this.getToday().addDays(Math.max(minInterval, 1));
+    scheduler.balance(this, rep, earliest);
+    this.addRow(rep);
+  }
+
+  // The queue scheduler unless the row overrides the scheduler or its a-factor.
+  getRowScheduler(rep: MarkdownTableRow): Scheduler {
+    const overrides = rep.getOverrides();
+    if (overrides.scheduler === undefined && overrides.afactor === undefined)
+      return this.scheduler;
+
+    const name = overrides.scheduler ?? this.scheduler.getName();
+    if (!this.plugin.schedulers.get(name)) {
+      LogTo.Debug(`Unknown scheduler override: ${name}`);
+      return this.scheduler;
+    }
+    if (
+      overrides.afactor !== undefined &&
+      !this.plugin.schedulers.hasParam(name, "afactor")
+    ) {
+      LogTo.Console(
+        `Ignoring the A-Factor override of ${rep.link}, the ${name} scheduler has no A-Factor.`
+      );
+    }
+
+    const params: SchedulerParams =
+      name === this.scheduler.getName()
+        ? { ...this.scheduler.getParams() }
+        : {};
+    if (overrides.afactor !== undefined) params["afactor"] = overrides.afactor;
+    if (this.scheduler.maxRepsPerDay)
+      params["maxRepsPerDay"] = this.scheduler.maxRepsPerDay;
+    return this.plugin.schedulers.create(name, params);
+  }
+
+  // Returns whether the next rep date had to be moved.
+  private clampInterval(rep: MarkdownTableRow) {
+    const { minInterval, maxInterval } = rep.getOverrides();
+    if (minInterval === undefined && maxInterval === undefined) return false;
+
+    const clamp = (n: number) =>
+      Math.min(Math.max(n, minInterval ?? n), maxInterval ?? n);
+    const today = this.getToday();
+    const oneDay = 24 * 60 * 60 * 1000;
+    const days = Math.round(
+      (rep.nextRepDate.getTime() - today.getTime()) / oneDay
+    );
+    rep.interval = clamp(rep.interval);
+    if (days === clamp(days)) return false;
+    rep.nextRepDate = today.addDays(clamp(days));
+    return true;
+  }
+
+  getToday(): Date {
+    return this.clock ? new Date(this.clock) : new Date();
+  }
+
+  setClock(date?: Date) {
+    this.clock = date;
+  }
+
+  // Copy of the table which can be scheduled without affecting this one.
+  clone(): MarkdownTable {
+    const table = new MarkdownTable(this.plugin);
+    table.copySettings(this);
+    table.copyLayout(this);
+    table.rows = this.rows.map((row) => row.clone());
+    table.archive = this.archive.map((row) => row.clone());
+    table.removedDeleted = this.removedDeleted;
+    table.clock = this.clock;
+    table.pinnedLink = this.pinnedLink;
+    return table;
+  }
+
+  // The queue settings stored in the frontmatter.
+  copySettings(table: MarkdownTable) {
+    this.scheduler = table.scheduler;
+    this.ordering = table.ordering;
+    this.aging = table.aging ? { ...table.aging } : undefined;
+    this.storage = table.storage;
+  }
+
+  // Everything in the queue file apart from the settings and the rows.
+  copyLayout(table: MarkdownTable) {
+    this.columns = [...table.columns];
+    this.customColumns = [...table.customColumns];
+    this.frontMatterLines = [...table.frontMatterLines];
+    this.beforeTable = [...table.beforeTable];
+    this.afterTable = [...table.afterTable];
+    this.archiveColumns = [...table.archiveColumns];
+    this.afterArchive = [...table.afterArchive];
+  }
+
+  // Remembers the current state so that changes made since can be
+  // merged with concurrent changes to the queue file.
+  takeSnapshot() {
+    this.snapshot = {
+      rows: new Map(this.rows.map((row) => [row.link, row.clone()])),
+      archive: this.archive.map((row) => row.clone()),
+      settings: JSON.stringify(this.getFrontMatter()),
+    };
+  }
+
+  getSnapshot(): TableSnapshot | undefined {
+    return this.snapshot;
+  }
+
+  settingsChanged(): boolean {
+    return (
+      !this.snapshot ||
+      this.snapshot.settings !== JSON.stringify(this.getFrontMatter())
+    );
   }
 
   findYamlEnd(split: string[]) {
@@ -67,45 +368,169 @@ export class MarkdownTable {
   }
 
   private createScheduler(frontMatter: GrayMatterFile<string>): Scheduler {
-    let scheduler: Scheduler;
-
-    // Default
-    if (this.plugin.settings.defaultQueueType === "afactor") {
-      scheduler = new AFactorScheduler();
-    } else if (this.plugin.settings.defaultQueueType === "simple") {
-      scheduler = new SimpleScheduler();
-    }
-
-    // Specified in YAML
-    if (frontMatter) {
-      let schedulerName = frontMatter.data["scheduler"];
-      if (schedulerName && schedulerName === "simple") {
-        scheduler = new SimpleScheduler();
-      } else if (schedulerName && schedulerName === "afactor") {
-        let afactor = Number(frontMatter.data["afactor"]);
-        let interval = Number(frontMatter.data["interval"]);
-        scheduler = new AFactorScheduler(afactor, interval);
+    return this.plugin.schedulers.fromFrontMatter(
+      frontMatter?.data,
+      this.plugin.settings.defaultQueueType
+    );
+  }
+
+  private parseOrdering(frontMatter: GrayMatterFile<string>): QueueOrdering {
+    const ordering = frontMatter?.data["ordering"];
+    if (ordering === undefined) return "priority";
+    if (Orderings.includes(ordering)) return ordering;
+    LogTo.Debug(`Unknown queue ordering: ${ordering}, using priority.`);
+    return "priority";
+  }
+
+  private parseStorage(frontMatter: GrayMatterFile<string>): StorageType {
+    const storage = frontMatter?.data["storage"];
+    if (storage === undefined) return "table";
+    if (StorageTypes.includes(storage)) return storage;
+    LogTo.Debug(`Unknown queue storage: ${storage}, using table.`);
+    return "table";
+  }
+
+  // Either a yaml list or a comma separated string of column names.
+  private parseCustomColumns(frontMatter: GrayMatterFile<string>): string[] {
+    const value = frontMatter?.data["columns"];
+    if (value === undefined || value === null) return [];
+    const names: unknown[] = Array.isArray(value)
+      ? value
+      : String(value).split(",");
+    const columns: string[] = [];
+    for (const name of names.map((n) => String(n).trim())) {
+      if (!name) continue;
+      if (name.contains("|") || MarkdownTable.baseHeader.includes(name)) {
+        LogTo.Debug(`Invalid custom column: ${name}`);
+        continue;
       }
+      if (!columns.includes(name)) columns.push(name);
     }
-    return scheduler;
+    return columns;
   }
 
-  parseRows(arr: string[]): MarkdownTableRow[] {
-    return arr.map((v) => this.parseRow(v));
+  getCustomColumns(): string[] {
+    return [...this.customColumns];
+  }
+
+  private parseAging(frontMatter: GrayMatterFile<string>): AgingPolicy {
+    const data = frontMatter?.data;
+    if (data?.["aging"] === undefined) return undefined;
+
+    const amount = Number(data["aging"]);
+    if (!(amount > 0 && amount.isValidPriority())) {
+      LogTo.Debug(`Invalid aging amount: ${data["aging"]}`);
+      return undefined;
+    }
+
+    const floor = Number(data["agingFloor"] ?? 0);
+    const lastAged = new Date(data["lastAged"]);
+    return {
+      amount,
+      floor: floor.isValidPriority() ? floor : 0,
+      lastAged: lastAged.isValid() ? lastAged : undefined,
+    };
   }
 
-  parseRow(text: string): MarkdownTableRow {
-    let arr = text
-      .substr(1, text.length - 1)
-      .split("|")
-      .map((r) => r.trim());
-    return new MarkdownTableRow(
+  // Ages the reps which were due but skipped on each day since the
+  // queue was last aged. Returns true if the table needs to be written.
+  ageSkippedReps(): boolean {
+    if (!this.aging) return false;
+    const today = new Date(this.getToday().formatYYMMDD());
+    const lastAged = this.aging.lastAged;
+    if (lastAged && lastAged >= today) return false;
+
+    this.aging.lastAged = today;
+    // Don't punish reps for days before aging was enabled
+    if (!lastAged) return true;
+
+    for (const row of this.rows) {
+      const due = new Date(row.nextRepDate.formatYYMMDD());
+      if (due >= today) continue;
+      const from = due > lastAged ? due : lastAged;
+      this.agePriority(row, today.daysDifference(from));
+    }
+    return true;
+  }
+
+  agePriority(row: MarkdownTableRow, times: number = 1) {
+    if (!this.aging || times <= 0 || row.priority <= this.aging.floor) return;
+    const aged = row.priority - this.aging.amount * times;
+    row.priority = Math.max(aged, this.aging.floor).round(2);
+  }
+
+  // Spreads priorities evenly between 0 and 100 without changing their order.
+  rebalancePriorities() {
+    const distinct = Array.from(new Set(this.rows.map((r) => r.priority))).sort(
+      (a, b) => a - b
+    );
+    const step = 99.9 / distinct.length;
+    const rebalanced = new Map(
+      distinct.map((p, i): [number, number] => [p, (step * (i + 1)).round(2)])
+    );
+    for (const row of this.rows) row.priority = rebalanced.get(row.priority);
+  }
+
+  getFrontMatter(): SchedulerParams {
+    const data: SchedulerParams = this.scheduler.getFrontMatter();
+    if (this.ordering !== "priority") data["ordering"] = this.ordering;
+    if (this.storage !== "table") data["storage"] = this.storage;
+    if (this.aging) {
+      data["aging"] = this.aging.amount;
+      data["agingFloor"] = this.aging.floor;
+      if (this.aging.lastAged)
+        data["lastAged"] = this.aging.lastAged.formatYYMMDD();
+    }
+    return data;
+  }
+
+  // Splits on unescaped pipes and unescapes the cells.
+  private splitRow(text: string): string[] {
+    let trimmed = text.trim();
+    if (trimmed.startsWith("|")) trimmed = trimmed.substr(1);
+    if (trimmed.endsWith("|") && !trimmed.endsWith("\\|"))
+      trimmed = trimmed.substr(0, trimmed.length - 1);
+    return trimmed
+      .split(/(?<!\\)\|/)
+      .map((cell) => MarkdownTable.unescapeCell(cell.trim()));
+  }
+
+  static escapeCell(cell: string) {
+    return cell.replace(/\|/g, "\\|");
+  }
+
+  static unescapeCell(cell: string) {
+    return cell.replace(/\\\|/g, "|");
+  }
+
+  parseHeader(text?: string): string[] {
+    if (!text) return [];
+    return this.splitRow(text)
+      .slice(MarkdownTable.baseHeader.length)
+      .filter((column) => column.length > 0);
+  }
+
+  parseRows(
+    arr: string[],
+    columns: string[] = this.columns
+  ): MarkdownTableRow[] {
+    return arr.map((v) => this.parseRow(v, columns));
+  }
+
+  parseRow(text: string, columns: string[] = this.columns): MarkdownTableRow {
+    let arr = this.splitRow(text);
+    let row = new MarkdownTableRow(
       arr[0],
       Number(arr[1]),
       arr[2],
       Number(arr[3]),
       new Date(arr[4])
     );
+    columns.forEach((column, i) => {
+      let value = arr[MarkdownTable.baseHeader.length + i];
+      if (value) row.setField(column, value);
+    });
+    return row;
   }
 
   hasReps() {
@@ -136,6 +561,7 @@ export class MarkdownTable {
 
   sortReps() {
     this.sortByPriority();
+    if (this.ordering === "weighted") this.sortByWeightedDraw();
     this.sortByDue();
   }
 
@@ -151,6 +577,22 @@ export class MarkdownTable {
     });
   }
 
+  // Weighted by priority and seeded per session, so the order
+  // only changes when reps get added, removed or rescheduled.
+  private sortByWeightedDraw() {
+    const keys = new Map<MarkdownTableRow, number>();
+    for (const row of this.rows) {
+      const seed = `${this.plugin.sessionSeed}:${row.link}`;
+      keys.set(
+        row,
+        row.link === this.pinnedLink
+          ? Infinity
+          : RandomUtils.weightedKey(seed, 101 - row.priority)
+      );
+    }
+    this.rows.sort((a, b) => keys.get(b) - keys.get(a));
+  }
+
   private sortByPriority() {
     this.rows.sort((a, b) => {
       let fst = +a.priority;
@@ -165,34 +607,104 @@ export class MarkdownTable {
     this.rows.push(row);
   }
 
+  removeRow(row: MarkdownTableRow) {
+    this.rows = this.rows.filter((r) => r !== row);
+  }
+
   sort(compareFn: (a: MarkdownTableRow, b: MarkdownTableRow) => number) {
     if (this.rows) this.rows = this.rows.sort(compareFn);
   }
 
-  toString() {
-    const yaml = this.scheduler.toString();
-    const rows = this.toArray();
-    if (rows && rows.length > 0) {
-      const align = { align: ["l", "r", "l", "r", "r"] };
-      return [yaml, markdownTable([this.header, ...rows], align)]
-        .join(EOL)
-        .trim();
-    } else {
-      return yaml.trim();
+  getExtraColumns(): string[] {
+    const columns = [
+      ...this.columns,
+      ...this.customColumns,
+      ...this.scheduler.columns,
+    ];
+    for (const row of this.rows) columns.push(...Object.keys(row.fields));
+    return Array.from(new Set(columns));
+  }
+
+  private getArchiveColumns(): string[] {
+    const columns = [
+      ...this.archiveColumns,
+      MarkdownTable.ArchivedColumn,
+      MarkdownTable.ReasonColumn,
+    ];
+    for (const row of this.archive) columns.push(...Object.keys(row.fields));
+    return Array.from(new Set(columns));
+  }
+
+  private getOwnedKeys(): string[] {
+    const definition = this.plugin.schedulers.get(this.scheduler.getName());
+    const params = definition?.params.map((param) => param.key) ?? [];
+    return [...MarkdownTable.ownedKeys, ...params];
+  }
+
+  // Rewrites the frontmatter keys and the table body, leaving
+  // unknown frontmatter keys and any other content in place.
+  toString(withRows: boolean = true) {
+    const frontMatter = YamlUtils.merge(
+      this.frontMatterLines,
+      this.getFrontMatter(),
+      this.getOwnedKeys()
+    );
+    const lines = ["---", ...frontMatter, "---", ...this.beforeTable];
+
+    if (withRows && this.rows.length > 0) {
+      // tables need a blank line after a paragraph
+      const last = this.beforeTable[this.beforeTable.length - 1];
+      if (last && last.trim() !== "" && this.afterTable.length === 0)
+        lines.push("");
+      lines.push(this.renderTable(this.rows, this.getExtraColumns()));
+    }
+    lines.push(...this.afterTable);
+
+    if (this.archive.length > 0) {
+      const last = lines[lines.length - 1];
+      if (last && last.trim() !== "") lines.push("");
+      lines.push(
+        MarkdownTable.ArchiveHeading,
+        "",
+        this.renderTable(this.archive, this.getArchiveColumns())
+      );
     }
+
+    return [...lines, ...this.afterArchive].join(EOL).trim();
   }
 
-  toArray() {
-    return this.rows.map((x) => x.toArray());
+  private renderTable(rows: MarkdownTableRow[], columns: string[]) {
+    const header = [...MarkdownTable.baseHeader, ...columns];
+    const align = {
+      align: header.map((_, i) => MarkdownTable.baseAlign[i] ?? "l"),
+    };
+    const cells = rows.map((row) =>
+      row.toArray(columns).map((cell) => MarkdownTable.escapeCell(cell))
+    );
+    return markdownTable([header, ...cells], align);
   }
 }
 
 export class MarkdownTableRow {
+  // optional built in columns tracking the history of a rep,
+  // the memory scheduler also uses the last rep column
+  static readonly AddedColumn = "Added";
+  static readonly LastRepColumn = "Last Rep";
+  static readonly RepCountColumn = "Rep Count";
+  static readonly TagsColumn = "Tags";
+  static readonly HistoryColumns = [
+    MarkdownTableRow.AddedColumn,
+    MarkdownTableRow.LastRepColumn,
+    MarkdownTableRow.RepCountColumn,
+  ];
+
   link: string;
   priority: number;
   notes: string;
   interval: number;
   nextRepDate: Date;
+  // built in, custom and scheduler specific data stored in extra columns
+  fields: Record<string, string> = {};
 
   constructor(
     link: string,
@@ -203,24 +715,135 @@ export class MarkdownTableRow {
   ) {
     this.link = LinkEx.removeBrackets(link);
     this.priority = priority.isValidPriority() ? priority : 30;
-    this.notes = notes.replace(/(\r\n|\n|\r|\|)/gm, "");
+    this.notes = notes.replace(/(\r\n|\n|\r)/gm, "");
     this.interval = interval.isValidInterval() ? interval : 1;
     this.nextRepDate = nextRepDate.isValid()
       ? nextRepDate
       : new Date("1970-01-01");
   }
 
-  isDue(): boolean {
-    return new Date(Date.now()) >= this.nextRepDate;
+  isDue(now: Date = new Date(Date.now())): boolean {
+    return now >= this.nextRepDate;
+  }
+
+  // Identifies the row and all of its data.
+  serialize(): string {
+    return JSON.stringify(this.toArray(Object.keys(this.fields).sort()));
+  }
+
+  equals(row: MarkdownTableRow): boolean {
+    const columns = Array.from(
+      new Set([...Object.keys(this.fields), ...Object.keys(row.fields)])
+    );
+    return (
+      JSON.stringify(this.toArray(columns)) ===
+      JSON.stringify(row.toArray(columns))
+    );
+  }
+
+  clone(): MarkdownTableRow {
+    const row = new MarkdownTableRow(
+      this.link,
+      this.priority,
+      this.notes,
+      this.interval,
+      new Date(this.nextRepDate)
+    );
+    row.fields = { ...this.fields };
+    return row;
+  }
+
+  getNumberField(column: string, fallback: number): number {
+    const value = this.fields[column];
+    if (value === undefined || value === "") return fallback;
+    const num = Number(value);
+    return isNaN(num) ? fallback : num;
+  }
+
+  setField(column: string, value: string | number) {
+    this.fields[column] = value.toString().replace(/(\r\n|\n|\r)/gm, "");
+  }
+
+  removeField(column: string) {
+    delete this.fields[column];
+  }
+
+  private getDateField(column: string): Date | undefined {
+    const date = new Date(this.fields[column]);
+    return this.fields[column] && date.isValid() ? date : undefined;
+  }
+
+  getAdded(): Date | undefined {
+    return this.getDateField(MarkdownTableRow.AddedColumn);
+  }
+
+  setAdded(date: Date) {
+    this.setField(MarkdownTableRow.AddedColumn, date.formatYYMMDD());
+  }
+
+  getLastRep(): Date | undefined {
+    return this.getDateField(MarkdownTableRow.LastRepColumn);
+  }
+
+  getRepCount(): number {
+    return this.getNumberField(MarkdownTableRow.RepCountColumn, 0);
+  }
+
+  // Call after the rep has been scheduled, schedulers may
+  // depend on the date of the previous rep.
+  recordRep(date: Date) {
+    this.setField(MarkdownTableRow.LastRepColumn, date.formatYYMMDD());
+    this.setField(MarkdownTableRow.RepCountColumn, this.getRepCount() + 1);
+  }
+
+  getTags(): string[] {
+    const tags = this.fields[MarkdownTableRow.TagsColumn] ?? "";
+    return tags.split(/[\s,]+/).filter((tag) => tag.length > 1);
+  }
+
+  // Tags are stored space separated with a leading #
+  setTags(tags: string[]) {
+    const normalized = tags
+      .map((tag) => tag.trim().replace(/^#*/, ""))
+      .filter((tag) => tag.length > 0)
+      .map((tag) => "#" + tag);
+    if (normalized.length === 0) this.removeField(MarkdownTableRow.TagsColumn);
+    else this.setField(MarkdownTableRow.TagsColumn, normalized.join(" "));
+  }
+
+  getOverrides(): RowOverrides {
+    const overrides: RowOverrides = {};
+    const scheduler = this.fields[OverrideColumns.scheduler];
+    if (scheduler) overrides.scheduler = scheduler;
+
+    const afactor = this.getNumberField(OverrideColumns.afactor, NaN);
+    if (afactor.isValidAFactor()) overrides.afactor = afactor;
+
+    const minInterval = this.getNumberField(OverrideColumns.minInterval, NaN);
+    if (minInterval.isValidInterval()) overrides.minInterval = minInterval;
+
+    const maxInterval = this.getNumberField(OverrideColumns.maxInterval, NaN);
+    if (maxInterval.isValidInterval()) overrides.maxInterval = maxInterval;
+    return overrides;
+  }
+
+  setOverrides(overrides: RowOverrides) {
+    for (const key of Object.keys(OverrideColumns) as (keyof RowOverrides)[]) {
+      const value = overrides[key];
+      if (value === undefined || value === "")
+        this.removeField(OverrideColumns[key]);
+      else this.setField(OverrideColumns[key], value);
+    }
   }
 
-  toArray() {
+  toArray(columns: string[] = []) {
     return [
       LinkEx.addBrackets(this.link),
       this.priority.toString(),
       this.notes,
       this.interval.toString(),
       this.nextRepDate.formatYYMMDD(),
+      ...columns.map((column) => this.fields[column] ?? ""),
     ];
   }
 }
@@ -0,0 +1,101 @@
+import { MarkdownTableRow } from "./markdown";
+import "./helpers/date-utils";
+
+type Condition = (row: MarkdownTableRow) => boolean;
+
+const Comparisons: Record<string, (a: number, b: number) => boolean> = {
+  "<=": (a, b) => a <= b,
+  ">=": (a, b) => a >= b,
+  "!=": (a, b) => a !== b,
+  "<": (a, b) => a < b,
+  ">": (a, b) => a > b,
+  "=": (a, b) => a === b,
+};
+
+// Filters the reps of a queue with comma separated conditions which all
+// have to match, e.g. "due this week, priority < 30". Conditions:
+//
+// due, due today, due this week, due this month, overdue, not due
+// priority|interval <|<=|>|>=|=|!= number
+// next rep <|<=|>|>=|=|!= YYYY-MM-DD
+// link|notes contains text
+// #tag
+export class RepQuery {
+  private conditions: Condition[];
+
+  private constructor(conditions: Condition[]) {
+    this.conditions = conditions;
+  }
+
+  // Returns an error message if the query is invalid.
+  static parse(query: string, today: Date = new Date()): RepQuery | string {
+    const conditions: Condition[] = [];
+    for (const part of query.split(",")) {
+      const text = part.trim().toLowerCase();
+      if (text === "") continue;
+      const condition = RepQuery.parseCondition(text, today);
+      if (!condition) return `Invalid condition: ${part.trim()}`;
+      conditions.push(condition);
+    }
+    return new RepQuery(conditions);
+  }
+
+  private static parseCondition(text: string, today: Date): Condition {
+    const day = (date: Date) => date.formatYYMMDD();
+    const todayStr = day(today);
+    const endOfWeek = day(today.addDays(6 - today.getDay()));
+    const endOfMonth = day(
+      new Date(today.getFullYear(), today.getMonth() + 1, 0)
+    );
+
+    switch (text) {
+      case "due":
+      case "due today":
+        return (row) => day(row.nextRepDate) <= todayStr;
+      case "due this week":
+        return (row) => day(row.nextRepDate) <= endOfWeek;
+      case "due this month":
+        return (row) => day(row.nextRepDate) <= endOfMonth;
+      case "overdue":
+        return (row) => day(row.nextRepDate) < todayStr;
+      case "not due":
+        return (row) => day(row.nextRepDate) > todayStr;
+    }
+
+    if (text.startsWith("#"))
+      return (row) => row.getTags().some((tag) => tag.toLowerCase() === text);
+
+    const contains = text.match(/^(link|notes) contains (.+)$/);
+    if (contains) {
+      const [, field, value] = contains;
+      return (row) =>
+        (field === "link" ? row.link : row.notes).toLowerCase().contains(value);
+    }
+
+    const comparison = text.match(
+      /^(priority|interval|next rep)\s*(<=|>=|!=|<|>|=)\s*(\S+)$/
+    );
+    if (!comparison) return undefined;
+    const [, field, op, value] = comparison;
+    const compare = Comparisons[op];
+
+    if (field === "next rep") {
+      const date = new Date(value);
+      if (!date.isValid()) return undefined;
+      const dateStr = day(date);
+      return (row) => {
+        const rep = day(row.nextRepDate);
+        return compare(rep < dateStr ? -1 : rep > dateStr ? 1 : 0, 0);
+      };
+    }
+
+    const num = Number(value);
+    if (isNaN(num)) return undefined;
+    return (row) =>
+      compare(field === "priority" ? row.priority : row.interval, num);
+  }
+
+  matches(row: MarkdownTableRow): boolean {
+    return this.conditions.every((condition) => condition(row));
+  }
+}
@@ -0,0 +1,68 @@
+import { TAbstractFile, TFile } from "obsidian";
+import { MarkdownTable } from "./markdown";
+
+interface CachedQueue {
+  table: MarkdownTable;
+  // modification time of the queue file when the table was cached
+  mtime: number;
+}
+
+// Parsed queues by path, so that commands don't have to re-read the queue
+// file, re-parse it and resolve every link of the queue each time they run.
+export class QueueCache {
+  private queues: Map<string, CachedQueue> = new Map();
+  // links of each queue which resolved to notes when it was last cached,
+  // kept when the queue file changes so re-parsing only resolves new links
+  private resolved: Map<string, Set<string>> = new Map();
+
+  // A copy of the cached table which the caller is free to change.
+  get(file: TFile): MarkdownTable | undefined {
+    const cached = this.queues.get(file.path);
+    if (!cached) return undefined;
+    // changed without an event, e.g. before the plugin was watching
+    if (cached.mtime !== file.stat.mtime) {
+      this.queues.delete(file.path);
+      return undefined;
+    }
+    return cached.table.clone();
+  }
+
+  set(file: TFile, table: MarkdownTable) {
+    this.queues.set(file.path, {
+      table: table.clone(),
+      mtime: file.stat.mtime,
+    });
+    this.resolved.set(file.path, new Set(table.rows.map((row) => row.link)));
+  }
+
+  getResolvedLinks(file: TFile): Set<string> {
+    return this.resolved.get(file.path) ?? new Set();
+  }
+
+  onModified(file: TAbstractFile) {
+    const cached = this.queues.get(file.path);
+    if (cached && !(file instanceof TFile && cached.mtime === file.stat.mtime))
+      this.queues.delete(file.path);
+  }
+
+  // Rep data of frontmatter queues is stored in the notes, so the cached
+  // tables get updated in place when the metadata of a note changes.
+  updateFrontMatterQueues(
+    update: (queuePath: string, table: MarkdownTable) => void
+  ) {
+    for (const [path, { table }] of this.queues) {
+      if (table.storage === "frontmatter") update(path, table);
+    }
+  }
+
+  // Links of any queue may resolve to different notes now.
+  onRenamedOrDeleted() {
+    this.queues.clear();
+    this.resolved.clear();
+  }
+
+  // Queues may name a scheduler which has just been registered.
+  onSchedulersChanged() {
+    this.queues.clear();
+  }
+}
@@ -1,11 +1,42 @@
-import { MarkdownTable, MarkdownTableRow } from "./markdown";
+import { MarkdownTable, MarkdownTableRow, RowOverrides } from "./markdown";
 import { LogTo } from "./logger";
 import IW from "./main";
 import matter from "gray-matter";
 import { GrayMatterFile } from "gray-matter";
 import { NextRepScheduler } from "./views/next-rep-schedule";
+import { GradeModal } from "./views/grade-modal";
+import { QueueStorage } from "./storage";
+import { LinkEx } from "./helpers/link-utils";
+import { TableMerger } from "./table-merge";
+import { LoggedReview, QueueChange } from "./journal";
+import { ReviewAction } from "./review-log";
+
+// A review of a rep to append to the review log along with writing it
+export interface Review {
+  action: ReviewAction;
+  before: MarkdownTableRow;
+  after?: MarkdownTableRow;
+}
+
+// The rep scheduled by next repetition and the table it was written with
+export interface ScheduledRep {
+  table: MarkdownTable;
+  row: MarkdownTableRow;
+}
+
+// Rep data which gets set when scheduling a rep manually
+export interface ManualSchedule {
+  nextRepDate: Date;
+  interval: number;
+  priority: number;
+  overrides?: RowOverrides;
+}
 
 export class Queue {
+  // how often a write is retried if the queue changes while reading it
+  private static readonly maxWriteAttempts = 3;
+  // pending writes per queue path, so writes to a queue happen one at a time
+  private static writes: Map<string, Promise<string[] | undefined>> = new Map();
   queuePath: string;
   plugin: IW;
 
@@ -28,37 +59,161 @@ export class Queue {
     let table = await this.loadTable();
     if (!table || !table.hasReps()) {
       LogTo.Debug("No repetitions!", true);
-      if (table.removeDeleted) await this.writeQueueTable(table);
+      if (table.removedDeleted) await this.writeQueueTable(table);
       return;
     }
 
     let curRep = table.currentRep();
     if (!curRep.isDue()) {
       LogTo.Debug("No due repetition to dismiss.", true);
-      if (table.removeDeleted) await this.writeQueueTable(table);
+      if (table.removedDeleted) await this.writeQueueTable(table);
       return;
     }
 
-    table.removeCurrentRep();
-    LogTo.Console("Dismissed repetition: " + curRep.link, true);
-    await this.writeQueueTable(table);
+    await this.dismiss(table, curRep);
+  }
+
+  async dismiss(table: MarkdownTable, row: MarkdownTableRow) {
+    const before = table.clone();
+    table.archiveRow(row, "dismissed");
+    this.unpin(row);
+    LogTo.Console("Dismissed repetition: " + row.link, true);
+    await this.writeAndRecord("dismiss", before, table, {
+      action: "dismiss",
+      before: row,
+    });
+    await this.plugin.updateStatusBar();
+  }
+
+  // Makes the rep due and gives it a better priority than the other due
+  // reps. Weighted queues draw the current rep at random instead, so the
+  // rep gets pinned as the current rep until it is reviewed.
+  async makeCurrent(table: MarkdownTable, row: MarkdownTableRow) {
+    const before = table.clone();
+    const today = new Date(table.getToday().formatYYMMDD());
+    if (!row.isDue(today)) row.nextRepDate = today;
+
+    if (table.ordering === "weighted") {
+      this.plugin.pinnedReps.set(this.queuePath, row.link);
+      table.pinnedLink = row.link;
+    } else {
+      const best = Math.min(
+        ...table.rows
+          .filter((r) => r !== row && r.isDue())
+          .map((r) => r.priority)
+      );
+      if (row.priority >= best) row.priority = Math.max(0, best - 1).round(2);
+    }
+
+    await this.writeAndRecord("make current", before, table);
+    await this.plugin.updateStatusBar();
+  }
+
+  async manualSchedule(
+    table: MarkdownTable,
+    row: MarkdownTableRow,
+    schedule: ManualSchedule
+  ) {
+    const before = table.clone();
+    const previous = row.clone();
+    if (schedule.overrides) row.setOverrides(schedule.overrides);
+    row.nextRepDate = schedule.nextRepDate;
+    row.priority = schedule.priority;
+    row.interval = schedule.interval;
+    this.unpin(row);
+    await this.writeAndRecord("manual schedule", before, table, {
+      action: "manual schedule",
+      before: previous,
+      after: row,
+    });
+    await this.plugin.updateStatusBar();
+  }
+
+  private unpin(row: MarkdownTableRow) {
+    if (this.plugin.pinnedReps.get(this.queuePath) === row.link)
+      this.plugin.pinnedReps.delete(this.queuePath);
+  }
+
+  async setPriority(
+    table: MarkdownTable,
+    row: MarkdownTableRow,
+    priority: number
+  ) {
+    const before = table.clone();
+    row.priority = priority.round(2);
+    await this.writeAndRecord("set priority", before, table);
+    await this.plugin.updateStatusBar();
+  }
+
+  // Moves the rep with all of its data to another queue.
+  async moveTo(table: MarkdownTable, row: MarkdownTableRow, target: Queue) {
+    if (target.queuePath === this.queuePath) return;
+    await target.createTableIfNotExists();
+    const targetTable = await target.loadTable();
+    if (!targetTable) {
+      LogTo.Console("Failed to load queue: " + target.queuePath, true);
+      return;
+    }
+
+    if (targetTable.hasRowWithLink(row.link)) {
+      LogTo.Console(`${row.link} is already in ${target.queuePath}!`, true);
+      return;
+    }
+
+    const before = table.clone();
+    const targetBefore = targetTable.clone();
+    table.removeRow(row);
+    targetTable.addRow(row.clone());
+    this.unpin(row);
+    const added = await target.writeChange(targetBefore, targetTable);
+    const removed = await this.writeChange(before, table);
+    // one entry, so that undo puts the rep back in both queues
+    this.plugin.journal.record(
+      "move",
+      [added.change, removed.change].filter((change) => change)
+    );
+    LogTo.Console(`Moved ${row.link} to ${target.queuePath}`, true);
     await this.plugin.updateStatusBar();
   }
 
   async loadTable(): Promise<MarkdownTable> {
-    let text: string = await this.readQueue();
-    if (!text) {
+    let table = await this.readTable();
+    if (!table) {
       LogTo.Debug("Failed to load queue table.");
       return;
     }
 
-    let fm = this.getFrontmatterString(text);
-    let table = new MarkdownTable(this.plugin, fm, text);
-    table.removeDeleted();
+    table.takeSnapshot();
+    table.pinnedLink = this.plugin.pinnedReps.get(this.queuePath);
     table.sortReps();
     return table;
   }
 
+  // The table as it is currently stored, without reps of deleted notes.
+  private async readTable(): Promise<MarkdownTable> {
+    const file = this.getQueueAsTFile();
+    const cached = file && this.plugin.queueCache.get(file);
+    if (cached) return cached;
+
+    const mtime = file?.stat.mtime;
+    let text: string = await this.readQueue();
+    if (!text) return;
+    let fm = this.getFrontmatterString(text);
+    let table = await this.getStorage(fm.data["storage"]).load(this, fm, text);
+    table.removeDeleted(
+      this.queuePath,
+      this.plugin.queueCache.getResolvedLinks(file)
+    );
+    if (file.stat.mtime === mtime) this.plugin.queueCache.set(file, table);
+    return table;
+  }
+
+  getStorage(type?: string): QueueStorage {
+    return type === "frontmatter"
+      ? this.plugin.frontMatterStorage
+      : this.plugin.tableStorage;
+  }
+
   getFrontmatterString(text: string): GrayMatterFile<string> {
     return matter(text);
   }
@@ -66,7 +221,7 @@ export class Queue {
   async goToCurrentRep() {
     let table = await this.loadTable();
     if (!table || !table.hasReps()) {
-      if (table.removeDeleted) await this.writeQueueTable(table);
+      if (table.removedDeleted) await this.writeQueueTable(table);
       LogTo.Console("No more repetitions!", true);
       return;
     }
@@ -78,15 +233,16 @@ export class Queue {
       LogTo.Console("No more repetitions!", true);
     }
 
-    if (table.removeDeleted) await this.writeQueueTable(table);
+    if (table.removedDeleted) await this.writeQueueTable(table);
   }
 
-  async nextRepetition(): Promise<boolean> {
+  // Returns undefined if no rep got scheduled.
+  async nextRepetition(grade?: number): Promise<ScheduledRep | undefined> {
     const table = await this.loadTable();
     if (!table || !table.hasReps()) {
       LogTo.Console("No more repetitions!", true);
-      if (table.removeDeleted) await this.writeQueueTable(table);
-      return false;
+      if (table.removedDeleted) await this.writeQueueTable(table);
+      return;
     }
 
     const currentRep = table.currentRep();
@@ -95,13 +251,37 @@ export class Queue {
     // Not due; don't schedule or load
     if (currentRep && !currentRep.isDue()) {
       LogTo.Debug("No more repetitions!", true);
-      if (table.removeDeleted) await this.writeQueueTable(table);
-      return false;
+      if (table.removedDeleted) await this.writeQueueTable(table);
+      return;
+    }
+
+    // Graded schedulers need a grade before the rep can be scheduled
+    if (table.getRowScheduler(currentRep).graded && grade === undefined) {
+      new GradeModal(this.plugin, async (g) => {
+        await this.nextRepetition(g);
+      }).open();
+      return;
     }
 
+    const before = table.clone();
+    const previous = currentRep.clone();
     table.removeCurrentRep();
-    table.schedule(currentRep);
+    table.schedule(currentRep, grade);
+    currentRep.recordRep(table.getToday());
+    this.unpin(currentRep);
+    // Skipped reps get aged here so the change is written with the rep
+    table.ageSkippedReps();
+
+    const conflicts = await this.writeAndRecord(
+      "next repetition",
+      before,
+      table,
+      { action: "next", before: previous, after: currentRep }
+    );
+    // not scheduled if the stored version of the rep was kept
+    const scheduled = conflicts && !conflicts.includes(currentRep.link);
 
+    // after recording the review, loading a rep restarts the review timer
     let repToLoad = null;
     if (currentRep && currentRep.isDue()) {
       repToLoad = currentRep;
@@ -112,13 +292,11 @@ export class Queue {
     if (repToLoad) await this.loadRep(repToLoad);
     else LogTo.Debug("No more repetitions!", true);
 
-    await this.writeQueueTable(table);
-
-    if (this.plugin.settings.askForNextRepDate) {
+    if (scheduled && this.plugin.settings.askForNextRepDate) {
       new NextRepScheduler(this.plugin, currentRep, table).open();
     }
     await this.plugin.updateStatusBar();
-    return true;
+    return scheduled ? { table, row: currentRep } : undefined;
   }
 
   private async loadRep(repToLoad: MarkdownTableRow) {
@@ -128,10 +306,16 @@ export class Queue {
     }
 
     this.plugin.statusBar.updateCurrentRep(repToLoad);
+    this.plugin.reviewLog.onRepLoaded(repToLoad);
     LogTo.Console("Loading repetition: " + repToLoad.link, true);
-    await this.plugin.app.workspace.openLinkText(repToLoad.link, "", false, {
-      active: true,
-    });
+    await this.plugin.app.workspace.openLinkText(
+      LinkEx.removeAlias(repToLoad.link),
+      "",
+      false,
+      {
+        active: true,
+      }
+    );
   }
 
   async add(...rows: MarkdownTableRow[]) {
@@ -142,6 +326,7 @@ export class Queue {
       return;
     }
 
+    const before = table.clone();
     for (const row of rows) {
       if (table.hasRowWithLink(row.link)) {
         LogTo.Console(
@@ -151,19 +336,43 @@ export class Queue {
         continue;
       }
 
-      if (row.link.contains("|") || row.notes.contains("|")) {
-        LogTo.Console(
-          `Skipping ${row.link} because it contains a pipe character.`,
-          true
-        );
-        continue;
-      }
-
+      if (!row.getAdded()) row.setAdded(table.getToday());
       table.addRow(row);
       LogTo.Console("Added note to queue: " + row.link, true);
     }
 
-    await this.writeQueueTable(table);
+    await this.writeAndRecord(
+      rows.length > 1 ? "bulk add" : "add",
+      before,
+      table
+    );
+    await this.plugin.updateStatusBar();
+  }
+
+  async restoreArchived(row: MarkdownTableRow, table: MarkdownTable) {
+    if (table.hasRowWithLink(row.link)) {
+      LogTo.Console(`${row.link} is already in your queue!`, true);
+      return;
+    }
+
+    const before = table.clone();
+    table.restoreRow(row);
+    await this.writeAndRecord("restore", before, table);
+    LogTo.Console("Restored repetition: " + row.link, true);
+    await this.plugin.updateStatusBar();
+  }
+
+  async rebalancePriorities() {
+    const table = await this.loadTable();
+    if (!table || !table.hasReps()) {
+      LogTo.Debug("No repetitions!", true);
+      return;
+    }
+
+    const before = table.clone();
+    table.rebalancePriorities();
+    await this.writeAndRecord("rebalance", before, table);
+    LogTo.Console("Rebalanced priorities.", true);
     await this.plugin.updateStatusBar();
   }
 
@@ -171,16 +380,108 @@ export class Queue {
     return this.plugin.files.getTFile(this.queuePath);
   }
 
-  async writeQueueTable(table: MarkdownTable): Promise<void> {
+  // Writes the table, logs the review and records the action in the
+  // journal. Returns the conflicts like writeQueueTable.
+  async writeAndRecord(
+    action: string,
+    before: MarkdownTable,
+    table: MarkdownTable,
+    review?: Review
+  ): Promise<string[] | undefined> {
+    const { conflicts, change } = await this.writeChange(before, table);
+    if (!change) return conflicts;
+
+    const reviews: LoggedReview[] = [];
+    // nothing was reviewed if the stored version of the rep was kept
+    if (review && !conflicts.includes(review.before.link)) {
+      const entry = await this.plugin.reviewLog.record(
+        this.queuePath,
+        review.action,
+        review.before,
+        review.after
+      );
+      reviews.push({ queuePath: this.queuePath, entry });
+    }
+    this.plugin.journal.record(action, [change], reviews);
+    return conflicts;
+  }
+
+  // Writes the table and returns the change to record in the journal,
+  // which is undefined if the queue wasn't written. Merging brings in
+  // changes made elsewhere, so the change is taken from the table as the
+  // action left it, and rows which kept the stored version are left out.
+  async writeChange(
+    before: MarkdownTable,
+    table: MarkdownTable
+  ): Promise<{ conflicts?: string[]; change?: QueueChange }> {
+    const after = table.clone();
+    const conflicts = await this.writeQueueTable(table);
+    if (!conflicts) return {};
+
+    for (const link of conflicts) {
+      after.rows = after.rows.filter((row) => row.link !== link);
+      const original = before.rows.find((row) => row.link === link);
+      if (original) after.addRow(original.clone());
+    }
+    return { conflicts, change: { queuePath: this.queuePath, before, after } };
+  }
+
+  // Merges the changes made to the table since it was loaded with any
+  // changes made to the queue in the meantime before writing it.
+  // Returns the links of the rows which were changed elsewhere in the
+  // meantime and kept the stored version, or undefined if the queue
+  // wasn't written.
+  async writeQueueTable(table: MarkdownTable): Promise<string[] | undefined> {
     let queue = this.getQueueAsTFile();
-    if (queue) {
-      table.removeDeleted();
-      let data = table.toString();
-      table.sortReps();
-      await this.plugin.app.vault.modify(queue, data);
-    } else {
+    if (!queue) {
       LogTo.Console("Failed to write queue because queue file was null.", true);
+      return;
+    }
+
+    const previous: Promise<unknown> =
+      Queue.writes.get(this.queuePath) ?? Promise.resolve();
+    const write = previous
+      .catch(() => {})
+      .then(() => this.mergeAndWrite(table));
+    Queue.writes.set(this.queuePath, write);
+    try {
+      return await write;
+    } finally {
+      if (Queue.writes.get(this.queuePath) === write)
+        Queue.writes.delete(this.queuePath);
+    }
+  }
+
+  private async mergeAndWrite(
+    table: MarkdownTable
+  ): Promise<string[] | undefined> {
+    const queue = this.getQueueAsTFile();
+    for (let attempt = 0; attempt < Queue.maxWriteAttempts; attempt++) {
+      const mtime = queue.stat.mtime;
+      const current = await this.readTable();
+      // changed while reading, try again
+      if (queue.stat.mtime !== mtime) continue;
+
+      const conflicts = current ? TableMerger.merge(table, current) : [];
+      for (const link of conflicts) {
+        LogTo.Console(
+          `${link} was changed elsewhere, kept the version in the queue.`,
+          true
+        );
+      }
+
+      table.removeDeleted(
+        this.queuePath,
+        this.plugin.queueCache.getResolvedLinks(queue)
+      );
+      await this.getStorage(table.storage).write(this, table);
+      table.takeSnapshot();
+      table.removedDeleted = false;
+      this.plugin.queueCache.set(queue, table);
+      table.sortReps();
+      return conflicts;
     }
+    LogTo.Console("Failed to write queue because it kept changing.", true);
   }
 
   async readQueue(): Promise<string> {
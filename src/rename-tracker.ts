@@ -0,0 +1,81 @@
+import {
+  debounce,
+  parseLinktext,
+  TAbstractFile,
+  TFile,
+  TFolder,
+} from "obsidian";
+import path from "path";
+import IW from "./main";
+import { Queue } from "./queue";
+import { LinkEx } from "./helpers/link-utils";
+import { LogTo } from "./logger";
+
+// Keeps the links in queues pointing at notes after they get renamed or moved.
+export class RenameTracker {
+  private plugin: IW;
+  // current path by old path of the files renamed this session
+  private renamed: Map<string, string> = new Map();
+  private updateQueues = debounce(() => this.updateAllQueues(), 1000, true);
+
+  constructor(plugin: IW) {
+    this.plugin = plugin;
+  }
+
+  onRenamed(file: TAbstractFile, oldPath: string) {
+    if (file instanceof TFolder) {
+      for (const child of this.plugin.app.vault.getMarkdownFiles()) {
+        if (this.plugin.files.isDescendantOf(child, file))
+          this.record(
+            oldPath + child.path.substr(file.path.length),
+            child.path
+          );
+      }
+    } else if (file instanceof TFile) {
+      this.record(oldPath, file.path);
+    } else return;
+    this.updateQueues();
+  }
+
+  private record(oldPath: string, newPath: string) {
+    for (const [old, current] of this.renamed) {
+      if (current === oldPath) this.renamed.set(old, newPath);
+    }
+    this.renamed.set(oldPath, newPath);
+  }
+
+  // The link pointing at the new location of its note if the note
+  // was renamed, keeping the subpath and alias of the link.
+  follow(link: string): string | undefined {
+    const target = LinkEx.removeAlias(link);
+    const alias = link.substr(target.length);
+    const { path: linkpath, subpath } = parseLinktext(target);
+    const withExt = path.extname(linkpath) ? linkpath : linkpath + ".md";
+
+    for (const [oldPath, newPath] of this.renamed) {
+      if (oldPath !== withExt && !oldPath.endsWith("/" + withExt)) continue;
+      const file = this.plugin.files.getTFile(newPath);
+      if (!file) continue;
+      const linktext = this.plugin.app.metadataCache.fileToLinktext(
+        file,
+        "",
+        true
+      );
+      return linktext + subpath + alias;
+    }
+    return undefined;
+  }
+
+  // Loading a queue follows the renames, so each queue
+  // which has rows of renamed notes just needs writing.
+  private async updateAllQueues() {
+    for (const queuePath of this.plugin.getQueuePaths()) {
+      const queue = new Queue(this.plugin, queuePath);
+      const table = await queue.loadTable();
+      if (table?.removedDeleted && table.storage === "table") {
+        LogTo.Debug(`Updating renamed links in ${queuePath}`);
+        await queue.writeQueueTable(table);
+      }
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { normalizePath } from "obsidian";
+import IW from "./main";
+import { MarkdownTableRow } from "./markdown";
+import { LogTo } from "./logger";
+import "./helpers/date-utils";
+
+export type ReviewAction = "next" | "dismiss" | "edit" | "manual schedule";
+
+export interface RepState {
+  priority: number;
+  interval: number;
+  nextRep: string;
+}
+
+export interface ReviewEntry {
+  // ISO date and time of the action
+  timestamp: string;
+  link: string;
+  action: ReviewAction;
+  before: RepState;
+  // missing for dismissed reps
+  after?: RepState;
+  // seconds between loading the rep and the action
+  timeSpent?: number;
+}
+
+// Append-only history of the reviews of each queue, stored as
+// one JSON entry per line in a file next to the queue file.
+export class ReviewLog {
+  private plugin: IW;
+  // the rep which was loaded last and when
+  private loaded?: { link: string; time: number };
+  // pending appends per log file, so entries don't overwrite each other
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(plugin: IW) {
+    this.plugin = plugin;
+  }
+
+  static getLogPath(queuePath: string) {
+    return normalizePath(queuePath.replace(/\.md$/, "") + ".history.jsonl");
+  }
+
+  onRepLoaded(row: MarkdownTableRow) {
+    this.loaded = { link: row.link, time: Date.now() };
+  }
+
+  private getTimeSpent(link: string): number | undefined {
+    if (this.loaded?.link !== link) return undefined;
+    return Math.round((Date.now() - this.loaded.time) / 1000);
+  }
+
+  private static toState(row: MarkdownTableRow): RepState {
+    return {
+      priority: row.priority,
+      interval: row.interval,
+      nextRep: row.nextRepDate.formatYYMMDD(),
+    };
+  }
+
+  // Returns the entry which was appended.
+  async record(
+    queuePath: string,
+    action: ReviewAction,
+    before: MarkdownTableRow,
+    after?: MarkdownTableRow
+  ): Promise<ReviewEntry> {
+    const entry: ReviewEntry = {
+      timestamp: new Date().toISOString(),
+      link: before.link,
+      action,
+      before: ReviewLog.toState(before),
+    };
+    if (after) entry.after = ReviewLog.toState(after);
+    const timeSpent = this.getTimeSpent(before.link);
+    if (timeSpent !== undefined) entry.timeSpent = timeSpent;
+    await this.restore(queuePath, entry);
+    return entry;
+  }
+
+  // Appends an entry again after it was removed.
+  async restore(queuePath: string, entry: ReviewEntry) {
+    await this.update(ReviewLog.getLogPath(queuePath), (text) => {
+      const separator = text === "" || text.endsWith("\n") ? "" : "\n";
+      return text + separator + JSON.stringify(entry) + "\n";
+    });
+  }
+
+  // Removes the last line of the entry, when the action which
+  // recorded it gets undone.
+  async remove(queuePath: string, entry: ReviewEntry) {
+    const line = JSON.stringify(entry);
+    await this.update(ReviewLog.getLogPath(queuePath), (text) => {
+      const lines = text.split("\n");
+      const index = lines.lastIndexOf(line);
+      if (index === -1) return text;
+      lines.splice(index, 1);
+      return lines.join("\n");
+    });
+  }
+
+  private async update(logPath: string, change: (text: string) => string) {
+    const previous = this.writes.get(logPath) ?? Promise.resolve();
+    const write = previous
+      .catch(() => {})
+      .then(async () => {
+        const adapter = this.plugin.app.vault.adapter;
+        const text = (await adapter.exists(logPath))
+          ? await adapter.read(logPath)
+          : "";
+        const updated = change(text);
+        if (updated !== text) await adapter.write(logPath, updated);
+      });
+    this.writes.set(logPath, write);
+    try {
+      await write;
+    } catch (e) {
+      LogTo.Console(`Failed to write review log ${logPath}: ${e}`);
+    } finally {
+      if (this.writes.get(logPath) === write) this.writes.delete(logPath);
+    }
+  }
+
+  // Entries which fail to parse are skipped.
+  async read(queuePath: string): Promise<ReviewEntry[]> {
+    const logPath = ReviewLog.getLogPath(queuePath);
+    const adapter = this.plugin.app.vault.adapter;
+    if (!(await adapter.exists(logPath))) return [];
+
+    const entries: ReviewEntry[] = [];
+    for (const line of (await adapter.read(logPath)).split(/\r?\n/)) {
+      if (line.trim() === "") continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (e) {
+        LogTo.Debug(`Skipping invalid review log entry: ${line}`);
+      }
+    }
+    return entries;
+  }
+}
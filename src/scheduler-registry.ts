@@ -0,0 +1,136 @@
+import {
+  Scheduler,
+  SchedulerDefinition,
+  SchedulerParam,
+  SchedulerParams,
+  SchedulerParamValue,
+  SimpleSchedulerDefinition,
+  AFactorSchedulerDefinition,
+  SM2SchedulerDefinition,
+  MemorySchedulerDefinition,
+  RecurrenceSchedulerDefinition,
+} from "./scheduler";
+import { MarkdownTable, MarkdownTableRow } from "./markdown";
+import { LogTo } from "./logger";
+import IW from "./main";
+
+// Stands in for a scheduler which isn't registered, e.g. because the plugin
+// providing it is disabled or hasn't loaded yet. Reps are scheduled by the
+// fallback, but the name gets written back as it was. Params of the missing
+// scheduler aren't owned by the table, so they are left alone too.
+class UnregisteredScheduler extends Scheduler {
+  private fallback: Scheduler;
+
+  constructor(name: string, fallback: Scheduler) {
+    super(name, fallback.columns, fallback.graded);
+    this.fallback = fallback;
+  }
+
+  schedule(table: MarkdownTable, row: MarkdownTableRow, grade?: number) {
+    this.fallback.schedule(table, row, grade);
+  }
+}
+
+const BuiltinSchedulers: SchedulerDefinition[] = [
+  AFactorSchedulerDefinition,
+  SimpleSchedulerDefinition,
+  SM2SchedulerDefinition,
+  MemorySchedulerDefinition,
+  RecurrenceSchedulerDefinition,
+];
+
+export class SchedulerRegistry {
+  static readonly fallbackScheduler = AFactorSchedulerDefinition.name;
+  private plugin: IW;
+  private definitions: Map<string, SchedulerDefinition> = new Map();
+
+  constructor(plugin: IW) {
+    this.plugin = plugin;
+    for (const definition of BuiltinSchedulers) this.register(definition);
+  }
+
+  register(definition: SchedulerDefinition) {
+    if (this.definitions.has(definition.name)) {
+      LogTo.Debug(`Replacing registered scheduler: ${definition.name}`);
+    }
+    this.definitions.set(definition.name, definition);
+  }
+
+  unregister(name: string) {
+    if (BuiltinSchedulers.some((d) => d.name === name)) {
+      LogTo.Debug(`Can't unregister built-in scheduler: ${name}`);
+      return;
+    }
+    this.definitions.delete(name);
+  }
+
+  get(name: string): SchedulerDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  getAll(): SchedulerDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  // Whether the registered scheduler takes the given frontmatter param.
+  hasParam(name: string, key: string) {
+    return this.get(name)?.params.some((param) => param.key === key) ?? false;
+  }
+
+  // Returns undefined if the value is invalid.
+  parseParam(param: SchedulerParam, raw: unknown): SchedulerParamValue {
+    if (raw === undefined || raw === null || raw === "") return undefined;
+    const value = param.type === "number" ? Number(raw) : String(raw);
+    if (typeof value === "number" && isNaN(value)) return undefined;
+    return param.isValid(value, this.plugin) ? value : undefined;
+  }
+
+  // Invalid or missing params fall back to their default values.
+  parseParams(
+    definition: SchedulerDefinition,
+    data: Record<string, unknown> = {}
+  ): SchedulerParams {
+    const params: SchedulerParams = {};
+    for (const param of definition.params) {
+      const value = this.parseParam(param, data[param.key]);
+      if (value === undefined && data[param.key] !== undefined) {
+        LogTo.Debug(
+          `Invalid ${param.key} for ${definition.name} scheduler, using ${param.defaultValue}.`
+        );
+      }
+      if (value === undefined && param.optional) continue;
+      params[param.key] = value ?? param.defaultValue;
+    }
+    return params;
+  }
+
+  create(name: string, data: Record<string, unknown> = {}): Scheduler {
+    let definition = this.get(name);
+    if (!definition) {
+      LogTo.Debug(
+        `Unknown scheduler: ${name}, using ${SchedulerRegistry.fallbackScheduler}.`
+      );
+      definition = this.get(SchedulerRegistry.fallbackScheduler);
+    }
+    return definition.create(this.parseParams(definition, data), this.plugin);
+  }
+
+  fromFrontMatter(
+    data: Record<string, unknown> | undefined,
+    defaultName: string
+  ): Scheduler {
+    const name = data?.["scheduler"];
+    if (typeof name !== "string") return this.create(defaultName);
+    if (this.get(name)) return this.create(name, data);
+
+    LogTo.Debug(
+      `Unknown scheduler: ${name}, using ${defaultName} until it is registered.`
+    );
+    const fallback = this.create(defaultName, {
+      maxRepsPerDay: data["maxRepsPerDay"],
+    });
+    return new UnregisteredScheduler(name, fallback).setMaxRepsPerDay(
+      data["maxRepsPerDay"] as SchedulerParamValue
+    );
+  }
+}
@@ -1,14 +1,110 @@
 import { MarkdownTable, MarkdownTableRow } from "./markdown";
 import "./helpers/date-utils";
 import "./helpers/number-utils";
+import { WorkloadBalancer } from "./helpers/workload-utils";
+import { RecurrenceRule } from "./helpers/recurrence-utils";
+import { DateParser } from "./helpers/parse-date";
+import { LogTo } from "./logger";
+import { YamlUtils } from "./helpers/yaml-utils";
+import IW from "./main";
+
+export type SchedulerParamValue = string | number;
+export type SchedulerParams = Record<string, SchedulerParamValue>;
+
+export interface SchedulerParam {
+  // key in the queue frontmatter
+  key: string;
+  // label of the field in the create queue modal
+  label: string;
+  type: "number" | "string";
+  defaultValue: SchedulerParamValue;
+  // optional params are left out when no value is given
+  optional?: boolean;
+  isValid(value: SchedulerParamValue, plugin: IW): boolean;
+}
+
+export interface SchedulerDefinition {
+  // value of the scheduler key in the queue frontmatter
+  name: string;
+  // name shown in dropdowns
+  displayName: string;
+  params: SchedulerParam[];
+  // params are validated before being passed in
+  create(params: SchedulerParams, plugin: IW): Scheduler;
+}
 
 export abstract class Scheduler {
   protected name: string;
-  constructor(name: string) {
+  // extra table columns used to store per row scheduling data
+  readonly columns: string[];
+  // whether the user has to grade each repetition
+  readonly graded: boolean;
+  // optional cap on the number of reps due on a single day
+  maxRepsPerDay?: number;
+
+  constructor(name: string, columns: string[] = [], graded: boolean = false) {
     this.name = name;
+    this.columns = columns;
+    this.graded = graded;
+  }
+
+  abstract schedule(
+    table: MarkdownTable,
+    row: MarkdownTableRow,
+    grade?: number
+  ): void;
+
+  getName() {
+    return this.name;
+  }
+
+  setMaxRepsPerDay(maxRepsPerDay?: SchedulerParamValue) {
+    const max = Number(maxRepsPerDay);
+    this.maxRepsPerDay = max.isValidMaxReps() ? max : undefined;
+    return this;
+  }
+
+  // Days until the next rep, fuzzed when load balancing is enabled.
+  protected daysUntilNextRep(interval: number) {
+    return this.maxRepsPerDay ? WorkloadBalancer.fuzz(interval) : interval;
+  }
+
+  // Moves the rep to the closest day under the daily cap, but not before
+  // earliest. Call before adding the row to the table.
+  balance(table: MarkdownTable, row: MarkdownTableRow, earliest?: Date) {
+    if (!this.maxRepsPerDay) return;
+    const today = table.getToday();
+    const balancer = new WorkloadBalancer(
+      this.maxRepsPerDay,
+      table.rows,
+      today
+    );
+    row.nextRepDate = balancer.place(
+      row.nextRepDate,
+      earliest ?? today.addDays(1)
+    );
+  }
+
+  // params written to the queue frontmatter
+  getParams(): SchedulerParams {
+    return {};
+  }
+
+  // keys written to the queue frontmatter
+  getFrontMatter(): SchedulerParams {
+    const params: SchedulerParams = this.maxRepsPerDay
+      ? { ...this.getParams(), maxRepsPerDay: this.maxRepsPerDay }
+      : this.getParams();
+    return { scheduler: this.name, ...params };
+  }
+
+  toString() {
+    return Scheduler.toYaml(this.getFrontMatter());
   }
 
-  abstract schedule(table: MarkdownTable, row: MarkdownTableRow): void;
+  static toYaml(data: SchedulerParams) {
+    return YamlUtils.toYaml(data);
+  }
 }
 
 export class SimpleScheduler extends Scheduler {
@@ -26,35 +122,382 @@ export class SimpleScheduler extends Scheduler {
       curPri += step;
     }
   }
-
-  toString() {
-    return `---
-scheduler: "${this.name}"
----`;
-  }
 }
 
 export class AFactorScheduler extends Scheduler {
   private afactor: number;
   private interval: number;
+  private minInterval?: number;
+  private maxInterval?: number;
 
-  constructor(afactor: number = 2, interval: number = 1) {
+  constructor(
+    afactor: number = 2,
+    interval: number = 1,
+    minInterval?: number,
+    maxInterval?: number
+  ) {
     super("afactor");
     this.afactor = afactor.isValidAFactor() ? afactor : 2;
     this.interval = interval.isValidInterval() ? interval : 1;
+    this.minInterval = minInterval?.isValidInterval() ? minInterval : undefined;
+    this.maxInterval = maxInterval?.isValidInterval() ? maxInterval : undefined;
+    if (
+      this.minInterval !== undefined &&
+      this.maxInterval !== undefined &&
+      this.minInterval > this.maxInterval
+    ) {
+      LogTo.Debug("Ignoring max interval because it is below min interval.");
+      this.maxInterval = undefined;
+    }
+  }
+
+  private clamp(interval: number) {
+    if (this.minInterval !== undefined)
+      interval = Math.max(interval, this.minInterval);
+    if (this.maxInterval !== undefined)
+      interval = Math.min(interval, this.maxInterval);
+    return interval;
   }
 
   schedule(table: MarkdownTable, row: MarkdownTableRow) {
-    row.nextRepDate = new Date().addDays(row.interval);
-    row.interval = this.afactor * row.interval;
+    const interval = this.clamp(row.interval);
+    row.nextRepDate = table.getToday().addDays(this.daysUntilNextRep(interval));
+    row.interval = this.clamp(this.afactor * interval);
+    this.balance(table, row);
     table.addRow(row);
   }
 
-  toString() {
-    return `---
-scheduler: "${this.name}"
-afactor: ${this.afactor}
-interval: ${this.interval}
----`;
+  getParams() {
+    const params: SchedulerParams = {
+      afactor: this.afactor,
+      interval: this.interval,
+    };
+    if (this.minInterval !== undefined) params.minInterval = this.minInterval;
+    if (this.maxInterval !== undefined) params.maxInterval = this.maxInterval;
+    return params;
+  }
+}
+
+export class SM2Scheduler extends Scheduler {
+  static readonly EaseColumn = "Ease";
+  static readonly RepsColumn = "Reps";
+  private ease: number;
+
+  constructor(ease: number = 2.5) {
+    super("sm2", [SM2Scheduler.EaseColumn, SM2Scheduler.RepsColumn], true);
+    this.ease = ease.isValidEase() ? ease : 2.5;
+  }
+
+  schedule(table: MarkdownTable, row: MarkdownTableRow, grade: number = 4) {
+    const quality = Math.min(Math.max(Math.round(grade), 0), 5);
+    let ease = row.getNumberField(SM2Scheduler.EaseColumn, this.ease);
+    let reps = row.getNumberField(SM2Scheduler.RepsColumn, 0);
+
+    // failed reps start again from the first interval
+    if (quality < 3) reps = 0;
+    else reps += 1;
+
+    // the interval grows by the ease from before this grade
+    if (reps <= 1) row.interval = 1;
+    else if (reps === 2) row.interval = 6;
+    else row.interval = Math.round(row.interval * ease);
+
+    ease = ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+    if (!ease.isValidEase()) ease = 1.3;
+
+    row.nextRepDate = table
+      .getToday()
+      .addDays(this.daysUntilNextRep(row.interval));
+    row.setField(SM2Scheduler.EaseColumn, ease.round(2));
+    row.setField(SM2Scheduler.RepsColumn, reps);
+    this.balance(table, row);
+    table.addRow(row);
+  }
+
+  getParams() {
+    return { ease: this.ease };
   }
 }
+
+export class MemoryScheduler extends Scheduler {
+  static readonly StabilityColumn = "Stability";
+  static readonly DifficultyColumn = "Difficulty";
+  // shared with the built in last rep column of MarkdownTableRow
+  static readonly LastRepColumn = "Last Rep";
+
+  // forgetting curve: R(t, S) = (1 + FACTOR * t / S) ^ DECAY
+  // chosen so that the probability of recall is 90% when t = S
+  private static readonly DECAY = -0.5;
+  private static readonly FACTOR = 19 / 81;
+  private static readonly INITIAL_STABILITY = 1;
+  private static readonly INITIAL_DIFFICULTY = 5;
+
+  private retention: number;
+  private maxInterval: number;
+
+  constructor(retention: number = 0.9, maxInterval: number = 365) {
+    super(
+      "memory",
+      [
+        MemoryScheduler.StabilityColumn,
+        MemoryScheduler.DifficultyColumn,
+        MemoryScheduler.LastRepColumn,
+      ],
+      true
+    );
+    this.retention = retention.isValidRetention() ? retention : 0.9;
+    this.maxInterval = maxInterval.isValidInterval() ? maxInterval : 365;
+  }
+
+  // Grades go from 0 to 5 like SM-2, anything below 3 counts as forgotten.
+  schedule(table: MarkdownTable, row: MarkdownTableRow, grade: number = 4) {
+    const quality = Math.min(Math.max(Math.round(grade), 0), 5);
+    const today = table.getToday();
+
+    let stability = row.getNumberField(MemoryScheduler.StabilityColumn, NaN);
+    const isNew = isNaN(stability) || stability <= 0;
+    const difficulty = this.nextDifficulty(
+      row.getNumberField(
+        MemoryScheduler.DifficultyColumn,
+        MemoryScheduler.INITIAL_DIFFICULTY
+      ),
+      quality,
+      isNew
+    );
+
+    if (isNew) {
+      stability = MemoryScheduler.INITIAL_STABILITY;
+    } else {
+      const lastRep = new Date(row.fields[MemoryScheduler.LastRepColumn]);
+      const elapsed = lastRep.isValid()
+        ? today.daysDifference(lastRep)
+        : row.interval;
+      stability =
+        quality < 3
+          ? this.stabilityAfterLapse(stability)
+          : this.nextStability(stability, difficulty, elapsed, quality);
+    }
+
+    row.interval = this.intervalFor(stability);
+    row.nextRepDate = today.addDays(this.daysUntilNextRep(row.interval));
+    row.setField(MemoryScheduler.StabilityColumn, stability.round(2));
+    row.setField(MemoryScheduler.DifficultyColumn, difficulty.round(2));
+    row.setField(MemoryScheduler.LastRepColumn, today.formatYYMMDD());
+    this.balance(table, row);
+    table.addRow(row);
+  }
+
+  // Good grades make a rep easier, bad ones harder. The difficulty
+  // drifts back towards the initial value so that a few unlucky
+  // grades don't pin a rep at the extremes.
+  private nextDifficulty(difficulty: number, quality: number, isNew: boolean) {
+    const initial = MemoryScheduler.INITIAL_DIFFICULTY;
+    let next = (isNew ? initial : difficulty) - (quality - 4);
+    next = 0.1 * initial + 0.9 * next;
+    return Math.min(Math.max(next, 1), 10);
+  }
+
+  private retrievability(elapsed: number, stability: number) {
+    return Math.pow(
+      1 + (MemoryScheduler.FACTOR * elapsed) / stability,
+      MemoryScheduler.DECAY
+    );
+  }
+
+  // Stability grows less the more stable a rep already is and the
+  // earlier it gets reviewed, so old reps don't run away to huge intervals.
+  private nextStability(
+    stability: number,
+    difficulty: number,
+    elapsed: number,
+    quality: number
+  ) {
+    const r = this.retrievability(elapsed, stability);
+    const bonus = quality === 5 ? 1.3 : quality === 3 ? 0.6 : 1;
+    const increase =
+      Math.exp(1.5) *
+      (11 - difficulty) *
+      Math.pow(stability, -0.3) *
+      (Math.exp(1 - r) - 1) *
+      bonus;
+    return stability * (1 + increase);
+  }
+
+  // Forgotten reps keep part of their stability instead of starting over.
+  private stabilityAfterLapse(stability: number) {
+    return Math.max(MemoryScheduler.INITIAL_STABILITY, stability * 0.2);
+  }
+
+  private intervalFor(stability: number) {
+    const interval =
+      (stability / MemoryScheduler.FACTOR) *
+      (Math.pow(this.retention, 1 / MemoryScheduler.DECAY) - 1);
+    return Math.min(Math.max(1, Math.round(interval)), this.maxInterval);
+  }
+
+  getParams() {
+    return { retention: this.retention, maxInterval: this.maxInterval };
+  }
+}
+
+export class RecurrenceScheduler extends Scheduler {
+  static readonly RecurrenceColumn = "Recurrence";
+  private recurrence: string;
+  private dates: DateParser;
+
+  constructor(dates: DateParser, recurrence: string = "every week") {
+    super("recurrence", [RecurrenceScheduler.RecurrenceColumn]);
+    this.dates = dates;
+    this.recurrence = RecurrenceRule.isValid(recurrence, dates)
+      ? recurrence
+      : "every week";
+  }
+
+  // Rules in the recurrence column override the queue rule.
+  schedule(table: MarkdownTable, row: MarkdownTableRow) {
+    const today = table.getToday();
+    const text =
+      row.fields[RecurrenceScheduler.RecurrenceColumn] || this.recurrence;
+    let next = RecurrenceRule.parse(text, this.dates)?.next(
+      row.nextRepDate,
+      today,
+      this.dates
+    );
+    if (!next) {
+      LogTo.Debug(`Failed to parse recurrence rule: ${text}`, true);
+      next = today.addDays(row.interval);
+    }
+
+    row.interval = Math.max(1, next.daysDifference(today));
+    row.nextRepDate = next;
+    table.addRow(row);
+  }
+
+  getParams() {
+    return { recurrence: this.recurrence };
+  }
+}
+
+export const MaxRepsPerDayParam: SchedulerParam = {
+  key: "maxRepsPerDay",
+  label: "Max Reps Per Day",
+  type: "number",
+  defaultValue: "",
+  optional: true,
+  isValid: (value: number) => value.isValidMaxReps(),
+};
+
+export const SimpleSchedulerDefinition: SchedulerDefinition = {
+  name: "simple",
+  displayName: "Simple Scheduler",
+  params: [],
+  create: () => new SimpleScheduler(),
+};
+
+export const AFactorSchedulerDefinition: SchedulerDefinition = {
+  name: "afactor",
+  displayName: "A-Factor Scheduler",
+  params: [
+    {
+      key: "interval",
+      label: "Default Interval",
+      type: "number",
+      defaultValue: 1,
+      isValid: (value: number) => value.isValidInterval(),
+    },
+    {
+      key: "afactor",
+      label: "Default A-Factor",
+      type: "number",
+      defaultValue: 2,
+      isValid: (value: number) => value.isValidAFactor(),
+    },
+    {
+      key: "minInterval",
+      label: "Min Interval",
+      type: "number",
+      defaultValue: "",
+      optional: true,
+      isValid: (value: number) => value.isValidInterval(),
+    },
+    {
+      key: "maxInterval",
+      label: "Max Interval",
+      type: "number",
+      defaultValue: "",
+      optional: true,
+      isValid: (value: number) => value.isValidInterval(),
+    },
+    MaxRepsPerDayParam,
+  ],
+  create: (params) =>
+    new AFactorScheduler(
+      Number(params.afactor),
+      Number(params.interval),
+      Number(params.minInterval),
+      Number(params.maxInterval)
+    ).setMaxRepsPerDay(params.maxRepsPerDay),
+};
+
+export const SM2SchedulerDefinition: SchedulerDefinition = {
+  name: "sm2",
+  displayName: "SM-2 Scheduler",
+  params: [
+    {
+      key: "ease",
+      label: "Initial Ease",
+      type: "number",
+      defaultValue: 2.5,
+      isValid: (value: number) => value.isValidEase(),
+    },
+    MaxRepsPerDayParam,
+  ],
+  create: (params) =>
+    new SM2Scheduler(Number(params.ease)).setMaxRepsPerDay(
+      params.maxRepsPerDay
+    ),
+};
+
+export const MemorySchedulerDefinition: SchedulerDefinition = {
+  name: "memory",
+  displayName: "Memory Model Scheduler",
+  params: [
+    {
+      key: "retention",
+      label: "Revisit Probability",
+      type: "number",
+      defaultValue: 0.9,
+      isValid: (value: number) => value.isValidRetention(),
+    },
+    {
+      key: "maxInterval",
+      label: "Max Interval",
+      type: "number",
+      defaultValue: 365,
+      isValid: (value: number) => value.isValidInterval(),
+    },
+    MaxRepsPerDayParam,
+  ],
+  create: (params) =>
+    new MemoryScheduler(
+      Number(params.retention),
+      Number(params.maxInterval)
+    ).setMaxRepsPerDay(params.maxRepsPerDay),
+};
+
+export const RecurrenceSchedulerDefinition: SchedulerDefinition = {
+  name: "recurrence",
+  displayName: "Recurrence Scheduler",
+  params: [
+    {
+      key: "recurrence",
+      label: "Recurrence",
+      type: "string",
+      defaultValue: "every week",
+      isValid: (value: string, plugin) =>
+        RecurrenceRule.isValid(value, plugin.dates),
+    },
+  ],
+  create: (params, plugin) =>
+    new RecurrenceScheduler(plugin.dates, String(params.recurrence)),
+};
@@ -0,0 +1,115 @@
+import { MarkdownTable } from "./markdown";
+import { ReviewEntry } from "./review-log";
+import "./helpers/date-utils";
+
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+export interface DailyReps {
+  date: Date;
+  reps: number;
+}
+
+export interface QueueStats {
+  total: number;
+  dueToday: number;
+  overdue: number;
+  priorities: HistogramBucket[];
+  intervals: HistogramBucket[];
+  repsPerDay: DailyReps[];
+  // undefined until some rep has been reviewed twice
+  averageDaysBetweenReps?: number;
+}
+
+// upper bounds of the interval histogram buckets
+const IntervalBuckets: [number, string][] = [
+  [1, "1"],
+  [3, "2-3"],
+  [7, "4-7"],
+  [14, "8-14"],
+  [30, "15-30"],
+  [90, "31-90"],
+  [180, "91-180"],
+  [Infinity, "181+"],
+];
+
+export class QueueStatistics {
+  static compute(
+    table: MarkdownTable,
+    history: ReviewEntry[],
+    days: number = 30
+  ): QueueStats {
+    const today = table.getToday().formatYYMMDD();
+    const reps = table.getReps();
+    return {
+      total: reps.length,
+      dueToday: reps.filter((r) => r.nextRepDate.formatYYMMDD() === today)
+        .length,
+      overdue: reps.filter((r) => r.nextRepDate.formatYYMMDD() < today).length,
+      priorities: QueueStatistics.priorityHistogram(
+        reps.map((r) => r.priority)
+      ),
+      intervals: QueueStatistics.intervalHistogram(reps.map((r) => r.interval)),
+      repsPerDay: QueueStatistics.repsPerDay(history, table.getToday(), days),
+      averageDaysBetweenReps: QueueStatistics.averageDaysBetweenReps(history),
+    };
+  }
+
+  private static priorityHistogram(priorities: number[]): HistogramBucket[] {
+    const buckets = Array.from({ length: 10 }, (_, i) => ({
+      label: i === 9 ? "90-100" : `${i * 10}-${i * 10 + 9}`,
+      count: 0,
+    }));
+    for (const priority of priorities) {
+      buckets[Math.min(Math.floor(priority / 10), 9)].count++;
+    }
+    return buckets;
+  }
+
+  private static intervalHistogram(intervals: number[]): HistogramBucket[] {
+    const buckets = IntervalBuckets.map(([_, label]) => ({ label, count: 0 }));
+    for (const interval of intervals) {
+      buckets[IntervalBuckets.findIndex(([max]) => interval <= max)].count++;
+    }
+    return buckets;
+  }
+
+  private static repsPerDay(
+    history: ReviewEntry[],
+    today: Date,
+    days: number
+  ): DailyReps[] {
+    const counts = new Map<string, number>();
+    for (const entry of history) {
+      if (entry.action !== "next") continue;
+      const date = new Date(entry.timestamp).formatYYMMDD();
+      counts.set(date, (counts.get(date) ?? 0) + 1);
+    }
+
+    const result: DailyReps[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const date = today.addDays(-i);
+      result.push({ date, reps: counts.get(date.formatYYMMDD()) ?? 0 });
+    }
+    return result;
+  }
+
+  private static averageDaysBetweenReps(history: ReviewEntry[]) {
+    const lastRep = new Map<string, Date>();
+    let total = 0;
+    let count = 0;
+    for (const entry of history) {
+      if (entry.action !== "next") continue;
+      const date = new Date(entry.timestamp);
+      const previous = lastRep.get(entry.link);
+      if (previous) {
+        total += (date.getTime() - previous.getTime()) / (24 * 60 * 60 * 1000);
+        count++;
+      }
+      lastRep.set(entry.link, date);
+    }
+    return count > 0 ? total / count : undefined;
+  }
+}
@@ -0,0 +1,254 @@
+import { parseLinktext, TFile } from "obsidian";
+import matter, { GrayMatterFile } from "gray-matter";
+import path from "path";
+import { MarkdownTable, MarkdownTableRow } from "./markdown";
+import { Queue } from "./queue";
+import { LogTo } from "./logger";
+import { LinkEx } from "./helpers/link-utils";
+import { YamlUtils, YamlValue } from "./helpers/yaml-utils";
+import IW from "./main";
+import "./helpers/date-utils";
+
+export interface QueueStorage {
+  load(
+    queue: Queue,
+    frontMatter: GrayMatterFile<string>,
+    text: string
+  ): Promise<MarkdownTable>;
+  write(queue: Queue, table: MarkdownTable): Promise<void>;
+}
+
+// Rep data stored in a markdown table in the queue file.
+export class TableStorage implements QueueStorage {
+  private plugin: IW;
+
+  constructor(plugin: IW) {
+    this.plugin = plugin;
+  }
+
+  async load(
+    _: Queue,
+    frontMatter: GrayMatterFile<string>,
+    text: string
+  ): Promise<MarkdownTable> {
+    return new MarkdownTable(this.plugin, frontMatter, text);
+  }
+
+  async write(queue: Queue, table: MarkdownTable) {
+    await this.plugin.app.vault.modify(
+      queue.getQueueAsTFile(),
+      table.toString()
+    );
+  }
+}
+
+// A rep as stored under the iw key in the frontmatter of its note.
+type FrontMatterEntry = {
+  queue: string;
+  // block or heading, empty for the whole note
+  subpath?: string;
+  priority: number;
+  interval: number;
+  nextRep: string;
+  notes?: string;
+  fields?: Record<string, string>;
+};
+
+// Rep data stored in the frontmatter of each note. The queue file
+// only holds the queue settings and the queue is derived from the notes.
+export class FrontMatterStorage implements QueueStorage {
+  static readonly key = "iw";
+  private plugin: IW;
+  // entries written since the metadata cache last saw the file
+  private pending: Map<string, FrontMatterEntry[]> = new Map();
+
+  constructor(plugin: IW) {
+    this.plugin = plugin;
+  }
+
+  // Call when the metadata cache has caught up with the file.
+  onMetadataChanged(file: TFile) {
+    this.pending.delete(file.path);
+    this.plugin.queueCache.updateFrontMatterQueues((queuePath, table) =>
+      this.updateRows(queuePath, table, file)
+    );
+  }
+
+  getQueueName(queuePath: string) {
+    return path
+      .relative(this.plugin.settings.queueFolderPath, queuePath)
+      .replace(/\.md$/, "");
+  }
+
+  // Replaces the rows of the file in the table with its current entries.
+  private updateRows(queuePath: string, table: MarkdownTable, file: TFile) {
+    const name = file.basename.toLowerCase();
+    for (const row of [...table.rows]) {
+      const { path } = parseLinktext(LinkEx.removeAlias(row.link));
+      // only links ending in the note name can resolve to it
+      if (!path.toLowerCase().replace(/\.md$/, "").endsWith(name)) continue;
+      const dest = this.plugin.app.metadataCache.getFirstLinkpathDest(
+        path,
+        queuePath
+      );
+      if (dest === file) table.removeRow(row);
+    }
+
+    const queueName = this.getQueueName(queuePath);
+    const link = this.plugin.files.toLinkText(file);
+    for (const entry of this.getEntries(file)) {
+      if (entry?.queue === queueName) table.addRow(this.toRow(link, entry));
+    }
+  }
+
+  private getEntries(file: TFile): FrontMatterEntry[] {
+    if (this.pending.has(file.path)) return this.pending.get(file.path);
+    const entries = this.plugin.app.metadataCache.getFileCache(file)
+      ?.frontmatter?.[FrontMatterStorage.key];
+    return Array.isArray(entries) ? entries : [];
+  }
+
+  async load(
+    queue: Queue,
+    frontMatter: GrayMatterFile<string>,
+    text: string
+  ): Promise<MarkdownTable> {
+    // parse the text to keep any other content of the queue file
+    const table = new MarkdownTable(this.plugin, frontMatter, text);
+    table.rows = [];
+    const queueName = this.getQueueName(queue.queuePath);
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      const link = this.plugin.files.toLinkText(file);
+      for (const entry of this.getEntries(file)) {
+        if (entry?.queue === queueName) table.addRow(this.toRow(link, entry));
+      }
+    }
+    return table;
+  }
+
+  async write(queue: Queue, table: MarkdownTable) {
+    await this.plugin.app.vault.modify(
+      queue.getQueueAsTFile(),
+      table.toString(false)
+    );
+
+    const queueName = this.getQueueName(queue.queuePath);
+    const byFile = new Map<TFile, FrontMatterEntry[]>();
+
+    // notes which have to drop dismissed or deleted reps
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      if (this.getEntries(file).some((e) => e?.queue === queueName))
+        byFile.set(file, []);
+    }
+
+    for (const row of table.rows) {
+      const { path, subpath } = parseLinktext(LinkEx.removeAlias(row.link));
+      const file = this.plugin.app.metadataCache.getFirstLinkpathDest(
+        path,
+        queue.queuePath
+      );
+      if (!file) continue;
+      if (!byFile.has(file)) byFile.set(file, []);
+      byFile.get(file).push(this.toEntry(queueName, subpath, row));
+    }
+
+    for (const [file, entries] of byFile) {
+      await this.writeEntries(file, queueName, entries);
+    }
+  }
+
+  private async writeEntries(
+    file: TFile,
+    queueName: string,
+    entries: FrontMatterEntry[]
+  ) {
+    const text = await this.plugin.app.vault.read(file);
+    // options disable the gray-matter cache so the data can be mutated
+    const note = matter(text, {});
+    const existing: FrontMatterEntry[] = Array.isArray(
+      note.data[FrontMatterStorage.key]
+    )
+      ? note.data[FrontMatterStorage.key]
+      : [];
+    // the entries of this queue replace the old ones where they were
+    const updated: FrontMatterEntry[] = [];
+    let replaced = false;
+    for (const entry of existing) {
+      if (entry?.queue !== queueName) updated.push(entry);
+      else if (!replaced) {
+        updated.push(...entries);
+        replaced = true;
+      }
+    }
+    if (!replaced) updated.push(...entries);
+    if (
+      FrontMatterStorage.canonical(existing) ===
+      FrontMatterStorage.canonical(updated)
+    )
+      return;
+
+    // only the iw key is rewritten, the other keys keep their formatting
+    const { lines, body } = YamlUtils.splitFrontMatter(text);
+    const data: Record<string, YamlValue> =
+      updated.length > 0 ? { [FrontMatterStorage.key]: updated } : {};
+    const frontMatter = YamlUtils.merge(lines ?? [], data, [
+      FrontMatterStorage.key,
+    ]);
+    const newText =
+      frontMatter.length > 0 || lines?.length === 0
+        ? ["---", ...frontMatter, "---", body].join("\n")
+        : body;
+
+    LogTo.Debug(`Updating rep data in frontmatter of ${file.path}`);
+    this.pending.set(file.path, updated);
+    await this.plugin.app.vault.modify(file, newText);
+  }
+
+  // Serializes entries with sorted keys in sorted order, so that
+  // reordered entries or keys don't count as a change.
+  private static canonical(value: unknown): string {
+    if (Array.isArray(value)) {
+      const items = value.map((v) => FrontMatterStorage.canonical(v));
+      return `[${items.sort().join()}]`;
+    }
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      const record = value as Record<string, unknown>;
+      const keys = Object.keys(record).sort();
+      return `{${keys
+        .map((k) => `${k}:${FrontMatterStorage.canonical(record[k])}`)
+        .join()}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  private toRow(link: string, entry: FrontMatterEntry): MarkdownTableRow {
+    const row = new MarkdownTableRow(
+      link + (entry.subpath ?? ""),
+      Number(entry.priority),
+      String(entry.notes ?? ""),
+      Number(entry.interval),
+      new Date(entry.nextRep)
+    );
+    for (const [column, value] of Object.entries(entry.fields ?? {})) {
+      row.setField(column, String(value));
+    }
+    return row;
+  }
+
+  private toEntry(
+    queueName: string,
+    subpath: string,
+    row: MarkdownTableRow
+  ): FrontMatterEntry {
+    const entry: FrontMatterEntry = {
+      queue: queueName,
+      priority: row.priority,
+      interval: row.interval,
+      nextRep: row.nextRepDate.formatYYMMDD(),
+    };
+    if (subpath) entry.subpath = subpath;
+    if (row.notes) entry.notes = row.notes;
+    if (Object.keys(row.fields).length > 0) entry.fields = { ...row.fields };
+    return entry;
+  }
+}
@@ -0,0 +1,75 @@
+import { MarkdownTable, MarkdownTableRow } from "./markdown";
+
+export class TableMerger {
+  // Merges the changes made to mine since its snapshot was taken with the
+  // changes made to the stored table (theirs) in the meantime, row by row.
+  // Rows changed on both sides keep the stored version. Updates mine in
+  // place and returns the links of the conflicting rows.
+  static merge(mine: MarkdownTable, theirs: MarkdownTable): string[] {
+    const base = mine.getSnapshot();
+    if (!base) return [];
+
+    const conflicts: string[] = [];
+    const ours = new Map(mine.rows.map((row) => [row.link, row]));
+    const merged = new Map(theirs.rows.map((row) => [row.link, row]));
+
+    for (const [link, row] of ours) {
+      const original = base.rows.get(link);
+      if (original && original.equals(row)) continue;
+
+      const current = merged.get(link);
+      if (TableMerger.canApply(original, current, row)) merged.set(link, row);
+      else conflicts.push(link);
+    }
+
+    for (const [link, original] of base.rows) {
+      if (ours.has(link)) continue;
+      const current = merged.get(link);
+      if (!current) continue;
+      if (current.equals(original)) merged.delete(link);
+      else conflicts.push(link);
+    }
+
+    if (!mine.settingsChanged()) mine.copySettings(theirs);
+    mine.copyLayout(theirs);
+    mine.rows = Array.from(merged.values());
+    mine.archive = TableMerger.mergeArchive(
+      base.archive,
+      mine.archive,
+      theirs.archive
+    );
+    return conflicts;
+  }
+
+  // Archived rows only ever get added or restored, so they merge as a set.
+  private static mergeArchive(
+    base: MarkdownTableRow[],
+    mine: MarkdownTableRow[],
+    theirs: MarkdownTableRow[]
+  ): MarkdownTableRow[] {
+    const key = (row: MarkdownTableRow) => row.serialize();
+    const baseKeys = new Set(base.map(key));
+    const mineKeys = new Set(mine.map(key));
+    const theirKeys = new Set(theirs.map(key));
+    return [
+      ...theirs.filter(
+        (row) => mineKeys.has(key(row)) || !baseKeys.has(key(row))
+      ),
+      ...mine.filter(
+        (row) => !baseKeys.has(key(row)) && !theirKeys.has(key(row))
+      ),
+    ];
+  }
+
+  // Our change applies if the stored row wasn't changed by someone else.
+  private static canApply(
+    original: MarkdownTableRow | undefined,
+    current: MarkdownTableRow | undefined,
+    row: MarkdownTableRow
+  ) {
+    if (!original) return !current || current.equals(row);
+    return (
+      current !== undefined && (current.equals(original) || current.equals(row))
+    );
+  }
+}
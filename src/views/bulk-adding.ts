@@ -16,6 +16,7 @@ import "../helpers/number-utils.ts";
 import "../helpers/date-utils.ts";
 import "../helpers/str-utils.ts";
 import { NaturalDateSuggest } from "./date-suggest";
+import { WorkloadBalancer } from "../helpers/workload-utils";
 import path from "path";
 
 export class BulkAdderModal extends ModalBase {
@@ -234,10 +235,16 @@ export class BulkAdderModal extends ModalBase {
 
     const queuePath = this.getQueuePath();
     const queue = new Queue(this.plugin, queuePath);
+    const table = await queue.loadTable();
+    const maxRepsPerDay = table?.scheduler.maxRepsPerDay;
+    const balancer = maxRepsPerDay
+      ? new WorkloadBalancer(maxRepsPerDay, table.getReps())
+      : null;
     const rows: MarkdownTableRow[] = [];
     LogTo.Console("To add: " + this.toAdd);
     for (let link of this.toAdd) {
-      rows.push(new MarkdownTableRow(link, curPriority, "", 1, curDate));
+      const date = balancer ? balancer.place(curDate) : curDate;
+      rows.push(new MarkdownTableRow(link, curPriority, "", 1, date));
       curPriority = (curPriority + priStep).round(2);
       curDate = new Date(dateMin).addDays(curStep);
       curStep += dateStep;
@@ -0,0 +1,224 @@
+import {
+  ButtonComponent,
+  debounce,
+  DropdownComponent,
+  ItemView,
+  TAbstractFile,
+  WorkspaceLeaf,
+} from "obsidian";
+import IW from "../main";
+import { Queue } from "../queue";
+import { MarkdownTable, MarkdownTableRow } from "../markdown";
+import { LinkEx } from "../helpers/link-utils";
+import "../helpers/date-utils";
+
+export const CalendarViewType = "iw-calendar";
+
+type CalendarMode = "month" | "week";
+
+// A rep together with the queue it belongs to
+interface CalendarItem {
+  queue: Queue;
+  table: MarkdownTable;
+  row: MarkdownTableRow;
+}
+
+export class CalendarView extends ItemView {
+  // reps listed per day before collapsing them into a count
+  private static readonly maxItemsPerDay = 5;
+  private plugin: IW;
+  private mode: CalendarMode = "month";
+  // any day within the shown month or week
+  private date: Date = new Date();
+  private items: Map<string, CalendarItem[]> = new Map();
+  // the item being dragged to another day
+  private dragged?: CalendarItem;
+  private calendarEl: HTMLDivElement;
+  private refreshLater = debounce(() => this.refresh(), 1000, true);
+
+  constructor(leaf: WorkspaceLeaf, plugin: IW) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return CalendarViewType;
+  }
+
+  getDisplayText() {
+    return "IW Calendar";
+  }
+
+  getIcon() {
+    return "calendar-with-checkmark";
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    //
+    // Navigation
+
+    new ButtonComponent(contentEl)
+      .setButtonText("<")
+      .onClick(() => this.navigate(-1));
+    new ButtonComponent(contentEl).setButtonText("Today").onClick(() => {
+      this.date = new Date();
+      this.render();
+    });
+    new ButtonComponent(contentEl)
+      .setButtonText(">")
+      .onClick(() => this.navigate(1));
+    new DropdownComponent(contentEl)
+      .addOption("month", "Month")
+      .addOption("week", "Week")
+      .setValue(this.mode)
+      .onChange((value: CalendarMode) => {
+        this.mode = value;
+        this.render();
+      });
+
+    this.calendarEl = contentEl.createDiv();
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => this.onModified(file))
+    );
+    await this.refresh();
+  }
+
+  private onModified(file: TAbstractFile) {
+    if (this.plugin.getQueuePaths().includes(file.path)) this.refreshLater();
+  }
+
+  private navigate(direction: number) {
+    if (this.mode === "week") this.date = this.date.addDays(7 * direction);
+    else
+      this.date = new Date(
+        this.date.getFullYear(),
+        this.date.getMonth() + direction,
+        1
+      );
+    this.render();
+  }
+
+  async refresh() {
+    this.items = new Map();
+    for (const queuePath of this.plugin.getQueuePaths()) {
+      const queue = new Queue(this.plugin, queuePath);
+      const table = await queue.loadTable();
+      if (!table) continue;
+      for (const row of table.rows) {
+        const key = row.nextRepDate.formatYYMMDD();
+        if (!this.items.has(key)) this.items.set(key, []);
+        this.items.get(key).push({ queue, table, row });
+      }
+    }
+    this.render();
+  }
+
+  // The days shown, starting on a Sunday.
+  private getDays(): Date[] {
+    const start =
+      this.mode === "week"
+        ? new Date(this.date)
+        : new Date(this.date.getFullYear(), this.date.getMonth(), 1);
+    const first = start.addDays(-start.getDay());
+    const weeks =
+      this.mode === "week"
+        ? 1
+        : Math.ceil(
+            (start.getDay() +
+              new Date(
+                start.getFullYear(),
+                start.getMonth() + 1,
+                0
+              ).getDate()) /
+              7
+          );
+    return Array.from({ length: weeks * 7 }, (_, i) => first.addDays(i));
+  }
+
+  private render() {
+    this.calendarEl.empty();
+    this.calendarEl.createEl("h4", {
+      text: this.date.toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      }),
+    });
+
+    const grid = this.calendarEl.createDiv();
+    grid.style.display = "grid";
+    grid.style.gridTemplateColumns = "repeat(7, minmax(0, 1fr))";
+    grid.style.gap = "2px";
+    for (const day of ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"])
+      grid.createEl("b", { text: day });
+
+    const today = new Date().formatYYMMDD();
+    for (const day of this.getDays()) {
+      const key = day.formatYYMMDD();
+      const items = this.items.get(key) ?? [];
+      const cell = grid.createDiv();
+      cell.style.border = "1px solid var(--background-modifier-border)";
+      cell.style.minHeight = "4em";
+      cell.style.overflow = "hidden";
+      if (key === today)
+        cell.style.background = "var(--background-secondary-alt)";
+      if (this.mode === "month" && day.getMonth() !== this.date.getMonth())
+        cell.style.opacity = "0.5";
+
+      cell.createEl("div", {
+        text:
+          `${day.getDate()}` + (items.length > 0 ? ` (${items.length})` : ""),
+      });
+      this.renderItems(cell, items);
+
+      cell.addEventListener("dragover", (ev) => ev.preventDefault());
+      cell.addEventListener("drop", async (ev) => {
+        ev.preventDefault();
+        await this.reschedule(day);
+      });
+    }
+  }
+
+  private renderItems(cell: HTMLElement, items: CalendarItem[]) {
+    const shown =
+      this.mode === "week"
+        ? items
+        : items.slice(0, CalendarView.maxItemsPerDay);
+    for (const item of shown) {
+      const el = cell.createEl("div", {
+        text: item.row.link,
+        attr: { title: `${item.row.link} (${item.queue.queuePath})` },
+      });
+      el.style.fontSize = "smaller";
+      el.style.whiteSpace = "nowrap";
+      el.style.cursor = "pointer";
+      el.draggable = true;
+      el.addEventListener("dragstart", () => (this.dragged = item));
+      el.addEventListener("click", async () => {
+        await this.app.workspace.openLinkText(
+          LinkEx.removeAlias(item.row.link),
+          item.queue.queuePath,
+          false
+        );
+      });
+    }
+    if (shown.length < items.length)
+      cell.createEl("div", { text: `+${items.length - shown.length} more` });
+  }
+
+  private async reschedule(day: Date) {
+    const item = this.dragged;
+    this.dragged = undefined;
+    if (!item || item.row.nextRepDate.formatYYMMDD() === day.formatYYMMDD())
+      return;
+
+    await item.queue.manualSchedule(item.table, item.row, {
+      nextRepDate: new Date(day.formatYYMMDD()),
+      interval: item.row.interval,
+      priority: item.row.priority,
+    });
+    await this.refresh();
+  }
+}
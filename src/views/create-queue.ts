@@ -10,13 +10,14 @@ import { ModalBase } from "./modal-base";
 import { LogTo } from "../logger";
 import "../helpers/date-utils";
 import "../helpers/str-utils";
-import { AFactorScheduler, Scheduler, SimpleScheduler } from "src/scheduler";
+import { Scheduler, SchedulerDefinition } from "src/scheduler";
 
 export class CreateQueueModal extends ModalBase {
   private queueNameText: TextComponent;
-  private intervalText: TextComponent;
-  private afactorText: TextComponent;
   private schedulerDropdown: DropdownComponent;
+  private paramsEl: HTMLDivElement;
+  private paramTexts: Record<string, TextComponent> = {};
+  private storageDropdown: DropdownComponent;
 
   constructor(plugin: IW) {
     super(plugin);
@@ -40,26 +41,28 @@ export class CreateQueueModal extends ModalBase {
     //
     // Queue Type
     contentEl.appendText("Scheduler: ");
-    this.schedulerDropdown = new DropdownComponent(contentEl)
-      .addOption("afactor", "A-Factor Scheduler")
-      .addOption("simple", "Simple Scheduler")
+    this.schedulerDropdown = new DropdownComponent(contentEl);
+    for (const scheduler of this.plugin.schedulers.getAll()) {
+      this.schedulerDropdown.addOption(scheduler.name, scheduler.displayName);
+    }
+    this.schedulerDropdown
       .setValue(this.plugin.settings.defaultQueueType)
-      .onChange((value: "afactor" | "simple") =>
-        this.showHideSchedulerSettings(value)
-      );
+      .onChange((value) => this.showSchedulerSettings(value));
     contentEl.createEl("br");
 
     //
-    // Interval
-    contentEl.appendText("Default Interval: ");
-    this.intervalText = new TextComponent(contentEl).setValue("1");
+    // Storage
+    contentEl.appendText("Store Rep Data In: ");
+    this.storageDropdown = new DropdownComponent(contentEl)
+      .addOption("table", "Queue Table")
+      .addOption("frontmatter", "Note Frontmatter")
+      .setValue("table");
     contentEl.createEl("br");
 
     //
-    // Afactor
-    contentEl.appendText("Default A-Factor: ");
-    this.afactorText = new TextComponent(contentEl).setValue("2");
-    contentEl.createEl("br");
+    // Scheduler Params
+    this.paramsEl = contentEl.createDiv();
+    this.showSchedulerSettings(this.schedulerDropdown.getValue());
 
     //
     // Button
@@ -84,24 +87,29 @@ export class CreateQueueModal extends ModalBase {
     });
   }
 
+  getSchedulerDefinition(): SchedulerDefinition {
+    return this.plugin.schedulers.get(this.schedulerDropdown.getValue());
+  }
+
   createScheduler(): Scheduler {
-    if (this.schedulerDropdown.getValue() === "afactor") {
-      const interval = Number(this.intervalText.getValue());
-      if (!interval.isValidInterval()) {
-        LogTo.Debug("Invalid interval data.", true);
-        return;
-      }
+    const definition = this.getSchedulerDefinition();
+    if (!definition) {
+      LogTo.Debug("Invalid scheduler.", true);
+      return;
+    }
 
-      const afactor = Number(this.afactorText.getValue());
-      if (!afactor.isValidAFactor()) {
-        LogTo.Debug("Invalid afactor data.", true);
+    const data: Record<string, string> = {};
+    for (const param of definition.params) {
+      const value = this.paramTexts[param.key].getValue();
+      if (param.optional && value === "") continue;
+      if (this.plugin.schedulers.parseParam(param, value) === undefined) {
+        LogTo.Debug(`Invalid ${param.label.toLowerCase()} data.`, true);
         return;
       }
-
-      return new AFactorScheduler(afactor, interval);
-    } else {
-      return new SimpleScheduler();
+      data[param.key] = value;
     }
+
+    return this.plugin.schedulers.create(definition.name, data);
   }
 
   async create() {
@@ -120,30 +128,33 @@ export class CreateQueueModal extends ModalBase {
       return;
     }
 
-    const schedulerData = this.createScheduler()?.toString();
-    if (!schedulerData || schedulerData.length === 0) return;
+    const scheduler = this.createScheduler();
+    if (!scheduler) return;
+
+    const storage = this.storageDropdown.getValue();
+    const schedulerData =
+      storage === "table"
+        ? scheduler.toString()
+        : Scheduler.toYaml({ ...scheduler.getFrontMatter(), storage });
 
     LogTo.Debug("Creating queue: " + queueName, true);
     await this.plugin.files.createIfNotExists(queueFile, schedulerData);
     await this.plugin.loadQueue(queueFile);
   }
 
-  showHideSchedulerSettings(value: "simple" | "afactor") {
-    switch (value) {
-      case "simple":
-        this.intervalText.setDisabled(true);
-        this.afactorText.setDisabled(true);
-        this.intervalText.setValue("---");
-        this.afactorText.setValue("---");
-        return;
-      case "afactor":
-        this.intervalText.setDisabled(false);
-        this.afactorText.setDisabled(false);
-        this.intervalText.setValue("1");
-        this.afactorText.setValue("2");
-        return;
-      default:
-        throw new Error("Expected simple or afactor, got: " + value);
+  showSchedulerSettings(name: string) {
+    this.paramsEl.empty();
+    this.paramTexts = {};
+    const definition = this.plugin.schedulers.get(name);
+    if (!definition) return;
+
+    for (const param of definition.params) {
+      this.paramsEl.appendText(param.label + ": ");
+      this.paramTexts[param.key] = new TextComponent(this.paramsEl).setValue(
+        param.defaultValue.toString()
+      );
+      if (param.optional) this.paramTexts[param.key].setPlaceholder("Optional");
+      this.paramsEl.createEl("br");
     }
   }
 }
@@ -11,6 +11,7 @@ import { MarkdownTable, MarkdownTableRow } from "../markdown";
 import "../helpers/date-utils";
 import "../helpers/number-utils";
 import { NaturalDateSuggest } from "./date-suggest";
+import { RowOverridesEditor } from "./overrides-editor";
 
 export class EditDataModal extends ModalBase {
   private inputSlider: SliderComponent;
@@ -18,6 +19,9 @@ export class EditDataModal extends ModalBase {
   private inputNextRep: TextComponent;
   private currentRep: MarkdownTableRow;
   private intervalInput: TextComponent;
+  private tagsInput: TextComponent;
+  private customInputs: Map<string, TextComponent> = new Map();
+  private overridesEditor: RowOverridesEditor;
   private table: MarkdownTable;
 
   constructor(plugin: IW, curRep: MarkdownTableRow, table: MarkdownTable) {
@@ -31,6 +35,7 @@ export class EditDataModal extends ModalBase {
 
     contentEl.createEl("h2", { text: "Edit Rep Data" });
     contentEl.createEl("p", { text: "Current Rep: " + this.currentRep.link });
+    contentEl.createEl("p", { text: this.getHistory() });
 
     //
     // Next Rep Date
@@ -73,6 +78,39 @@ export class EditDataModal extends ModalBase {
     );
     contentEl.createEl("br");
 
+    //
+    // Tags
+
+    contentEl.appendText("Tags: ");
+    this.tagsInput = new TextComponent(contentEl)
+      .setPlaceholder("#tag1 #tag2")
+      .setValue(this.currentRep.getTags().join(" "));
+    contentEl.createEl("br");
+
+    //
+    // Custom Columns
+
+    for (const column of this.table.getCustomColumns()) {
+      contentEl.appendText(column + ": ");
+      this.customInputs.set(
+        column,
+        new TextComponent(contentEl).setValue(
+          this.currentRep.fields[column] ?? ""
+        )
+      );
+      contentEl.createEl("br");
+    }
+
+    //
+    // Scheduler Overrides
+
+    this.overridesEditor = new RowOverridesEditor(
+      this.plugin,
+      contentEl,
+      this.currentRep,
+      this.table.scheduler.getName()
+    );
+
     //
     // Button
 
@@ -85,6 +123,16 @@ export class EditDataModal extends ModalBase {
     this.subscribeToEvents();
   }
 
+  private getHistory() {
+    const added = this.currentRep.getAdded();
+    const lastRep = this.currentRep.getLastRep();
+    return [
+      `Added: ${added ? added.formatYYMMDD() : "Unknown"}`,
+      `Last Rep: ${lastRep ? lastRep.formatYYMMDD() : "Never"}`,
+      `Reps: ${this.currentRep.getRepCount()}`,
+    ].join(", ");
+  }
+
   async updateStatusBar() {
     const curRep = (await this.plugin.queue.loadTable())?.currentRep();
     this.plugin.statusBar.updateCurrentRep(curRep);
@@ -108,16 +156,38 @@ export class EditDataModal extends ModalBase {
 
     const priority = this.inputSlider.getValue();
     const notes = this.inputNoteField.getValue();
-    if (notes.contains("|")) {
-      LogTo.Console("Repetition notes contain illegal character '|'.", true);
-      return;
+
+    const custom = new Map<string, string>();
+    for (const [column, input] of this.customInputs) {
+      custom.set(column, input.getValue().trim());
     }
 
+    const overrides = this.overridesEditor.getOverrides();
+    if (!overrides) return;
+
+    const postponed = this.currentRep.isDue() && date > new Date();
+    const priorityChanged =
+      Math.round(priority) !== Math.round(this.currentRep.priority);
+
+    const before = this.table.clone();
+    const previous = this.currentRep.clone();
+    this.currentRep.setOverrides(overrides);
+    this.currentRep.setTags(this.tagsInput.getValue().split(/[\s,]+/));
+    for (const [column, value] of custom) {
+      if (value === "") this.currentRep.removeField(column);
+      else this.currentRep.setField(column, value);
+    }
     this.currentRep.nextRepDate = date;
     this.currentRep.interval = interval;
     this.currentRep.priority = priority;
     this.currentRep.notes = notes;
-    await this.plugin.queue.writeQueueTable(this.table);
+    // Postponing a due rep without reviewing it ages its priority
+    if (postponed && !priorityChanged) this.table.agePriority(this.currentRep);
+    await this.plugin.queue.writeAndRecord("edit", before, this.table, {
+      action: "edit",
+      before: previous,
+      after: this.currentRep,
+    });
     LogTo.Debug("Updated repetition data.", true);
     await this.updateStatusBar();
   }
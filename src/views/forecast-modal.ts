@@ -0,0 +1,81 @@
+import { ButtonComponent, TextComponent } from "obsidian";
+import IW from "../main";
+import { ModalBase } from "./modal-base";
+import { LogTo } from "../logger";
+import { Forecaster } from "../forecast";
+import "../helpers/date-utils";
+
+export class ForecastModal extends ModalBase {
+  private daysText: TextComponent;
+  private resultsEl: HTMLDivElement;
+
+  constructor(plugin: IW) {
+    super(plugin);
+  }
+
+  onOpen() {
+    let { contentEl } = this;
+
+    contentEl.createEl("h2", { text: "Forecast Queue Workload" });
+
+    //
+    // Days
+
+    contentEl.appendText("Days: ");
+    this.daysText = new TextComponent(contentEl).setValue("30");
+    contentEl.createEl("br");
+
+    //
+    // Button
+
+    new ButtonComponent(contentEl)
+      .setButtonText("Forecast")
+      .onClick(async () => await this.forecast());
+
+    this.resultsEl = contentEl.createDiv();
+    this.subscribeToEvents();
+  }
+
+  subscribeToEvents() {
+    this.contentEl.addEventListener("keydown", async (ev) => {
+      if (ev.key === "Enter") {
+        await this.forecast();
+      }
+    });
+  }
+
+  async forecast() {
+    const days = Number(this.daysText.getValue());
+    if (!Number.isInteger(days) || days <= 0) {
+      LogTo.Debug("Invalid number of days.", true);
+      return;
+    }
+
+    const table = await this.plugin.queue.loadTable();
+    if (!table) {
+      LogTo.Debug("Failed to load queue table.", true);
+      return;
+    }
+
+    const forecast = Forecaster.run(table, days);
+    this.resultsEl.empty();
+    this.resultsEl.createEl("p", {
+      text: `Currently due: ${forecast.backlog}. Expected reps over the next ${days} days: ${forecast.total}.`,
+    });
+
+    const max = Math.max(1, ...forecast.days.map((day) => day.reps));
+    const tableEl = this.resultsEl.createEl("table");
+    const header = tableEl.createEl("tr");
+    header.createEl("th", { text: "Date" });
+    header.createEl("th", { text: "Reps" });
+    header.createEl("th");
+    for (const day of forecast.days) {
+      const tr = tableEl.createEl("tr");
+      tr.createEl("td", { text: day.date.formatYYMMDD() });
+      tr.createEl("td", { text: day.reps.toString() });
+      tr.createEl("td", {
+        text: "█".repeat(Math.round((day.reps / max) * 20)),
+      });
+    }
+  }
+}
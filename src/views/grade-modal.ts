@@ -0,0 +1,35 @@
+import { FuzzySuggestModal } from "obsidian";
+import IW from "../main";
+
+const Grades: Record<number, string> = {
+  5: "Perfect, no hesitation",
+  4: "Good, after some hesitation",
+  3: "Okay, but it took serious effort",
+  2: "Poor, but it felt familiar",
+  1: "Bad, barely remembered",
+  0: "Blackout",
+};
+
+export class GradeModal extends FuzzySuggestModal<number> {
+  plugin: IW;
+  private onGrade: (grade: number) => Promise<void>;
+
+  constructor(plugin: IW, onGrade: (grade: number) => Promise<void>) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.onGrade = onGrade;
+    this.setPlaceholder("Grade the current repetition (0-5)");
+  }
+
+  async onChooseItem(item: number, _: MouseEvent | KeyboardEvent) {
+    await this.onGrade(item);
+  }
+
+  getItems(): number[] {
+    return [5, 4, 3, 2, 1, 0];
+  }
+
+  getItemText(item: number) {
+    return `${item}: ${Grades[item]}`;
+  }
+}
@@ -0,0 +1,119 @@
+import { normalizePath } from "obsidian";
+import IW from "../main";
+import "../helpers/date-utils";
+
+export const HeatmapLanguage = "iw-heatmap";
+
+interface HeatmapOptions {
+  // queue file path, all queues if undefined
+  queuePath?: string;
+  from: Date;
+  to: Date;
+}
+
+// Renders iw-heatmap code blocks as a heatmap of the reps completed
+// each day, based on the review history of the queues. Options:
+//
+// queue: IW-Queue
+// from: 2021-01-01
+// to: today
+export class HeatmapRenderer {
+  private static readonly cellSize = "10px";
+  private plugin: IW;
+
+  constructor(plugin: IW) {
+    this.plugin = plugin;
+  }
+
+  // Returns an error message if an option is invalid.
+  private parseOptions(source: string): HeatmapOptions | string {
+    const today = new Date(new Date().formatYYMMDD());
+    const options: HeatmapOptions = { from: today.addDays(-364), to: today };
+    for (const line of source.split(/\r?\n/)) {
+      if (line.trim() === "") continue;
+      const idx = line.indexOf(":");
+      if (idx === -1) return `Invalid option: ${line}`;
+      const key = line.substr(0, idx).trim();
+      const value = line.substr(idx + 1).trim();
+
+      if (key === "queue") {
+        const name = value.endsWith(".md") ? value : value + ".md";
+        options.queuePath = normalizePath(
+          [this.plugin.settings.queueFolderPath, name].join("/")
+        );
+      } else if (key === "from" || key === "to") {
+        const date = this.plugin.dates.parseDate(value);
+        if (date.getTime() === new Date("1970-01-01").getTime())
+          return `Invalid date: ${value}`;
+        options[key] = new Date(date.formatYYMMDD());
+      } else return `Unknown option: ${key}`;
+    }
+
+    if (options.from > options.to) return "From is after to.";
+    return options;
+  }
+
+  private async countReps(options: HeatmapOptions) {
+    const counts = new Map<string, number>();
+    const queuePaths = options.queuePath
+      ? [options.queuePath]
+      : this.plugin.getQueuePaths();
+    for (const queuePath of queuePaths) {
+      for (const entry of await this.plugin.reviewLog.read(queuePath)) {
+        if (entry.action !== "next") continue;
+        const date = new Date(entry.timestamp).formatYYMMDD();
+        counts.set(date, (counts.get(date) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }
+
+  async render(source: string, el: HTMLElement) {
+    const options = this.parseOptions(source);
+    if (typeof options === "string") {
+      el.createEl("p", { text: "iw-heatmap: " + options });
+      return;
+    }
+
+    const counts = await this.countReps(options);
+    // weeks are columns starting on sunday
+    const first = options.from.addDays(-options.from.getDay());
+    const days = options.to.daysDifference(first) + 1;
+    const grid = el.createDiv();
+    grid.style.display = "grid";
+    grid.style.gridTemplateRows = `repeat(7, ${HeatmapRenderer.cellSize})`;
+    grid.style.gridAutoFlow = "column";
+    grid.style.gridAutoColumns = HeatmapRenderer.cellSize;
+    grid.style.gap = "2px";
+
+    const from = options.from.formatYYMMDD();
+    let max = 1;
+    for (const [date, count] of counts) {
+      if (date >= from && date <= options.to.formatYYMMDD())
+        max = Math.max(max, count);
+    }
+
+    let total = 0;
+    for (let i = 0; i < days; i++) {
+      const date = first.addDays(i).formatYYMMDD();
+      const cell = grid.createDiv();
+      // pads the first week
+      if (date < from) continue;
+
+      const count = counts.get(date) ?? 0;
+      total += count;
+      cell.setAttr("title", `${date}: ${count} reps`);
+      cell.style.borderRadius = "2px";
+      if (count === 0) {
+        cell.style.background = "var(--background-modifier-border)";
+      } else {
+        cell.style.background = "var(--interactive-accent)";
+        cell.style.opacity = (0.25 + 0.75 * (count / max)).toString();
+      }
+    }
+
+    el.createEl("p", {
+      text: `${total} reps between ${from} and ${options.to.formatYYMMDD()}.`,
+    });
+  }
+}
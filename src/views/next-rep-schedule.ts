@@ -5,11 +5,13 @@ import { ModalBase } from "./modal-base";
 import { MarkdownTableRow, MarkdownTable } from "../markdown";
 import "../helpers/date-utils";
 import { NaturalDateSuggest } from "./date-suggest";
+import { RowOverridesEditor } from "./overrides-editor";
 
 export class NextRepScheduler extends ModalBase {
   private intervalComponent: TextComponent;
   private priorityComponent: SliderComponent;
   private repDateComponent: TextComponent;
+  private overridesEditor: RowOverridesEditor;
   private curRep: MarkdownTableRow;
   private table: MarkdownTable;
 
@@ -56,6 +58,16 @@ export class NextRepScheduler extends ModalBase {
     );
     contentEl.createEl("br");
 
+    //
+    // Scheduler Overrides
+
+    this.overridesEditor = new RowOverridesEditor(
+      this.plugin,
+      contentEl,
+      this.curRep,
+      this.table.scheduler.getName()
+    );
+
     //
     // Button
 
@@ -100,11 +112,15 @@ export class NextRepScheduler extends ModalBase {
       return;
     }
 
+    const overrides = this.overridesEditor.getOverrides();
+    if (!overrides) return;
+
     const priority = this.priorityComponent.getValue();
-    this.curRep.nextRepDate = date;
-    this.curRep.priority = priority;
-    this.curRep.interval = interval;
-    await this.plugin.queue.writeQueueTable(this.table);
-    await this.plugin.updateStatusBar();
+    await this.plugin.queue.manualSchedule(this.table, this.curRep, {
+      nextRepDate: date,
+      interval,
+      priority,
+      overrides,
+    });
   }
 }
@@ -0,0 +1,124 @@
+import { DropdownComponent, TextComponent } from "obsidian";
+import IW from "../main";
+import { LogTo } from "../logger";
+import { MarkdownTableRow, RowOverrides } from "../markdown";
+import "../helpers/number-utils";
+
+// Fields for editing the per row scheduler overrides.
+// Empty fields mean the queue settings are used.
+export class RowOverridesEditor {
+  private plugin: IW;
+  // scheduler of the queue the row belongs to
+  private queueScheduler: string;
+  private schedulerDropdown: DropdownComponent;
+  private afactorText: TextComponent;
+  private minIntervalText: TextComponent;
+  private maxIntervalText: TextComponent;
+
+  constructor(
+    plugin: IW,
+    contentEl: HTMLElement,
+    row: MarkdownTableRow,
+    queueScheduler: string
+  ) {
+    this.plugin = plugin;
+    this.queueScheduler = queueScheduler;
+    const overrides = row.getOverrides();
+
+    //
+    // Scheduler
+
+    contentEl.appendText("Scheduler: ");
+    this.schedulerDropdown = new DropdownComponent(contentEl).addOption(
+      "",
+      "Queue Default"
+    );
+    for (const scheduler of plugin.schedulers.getAll()) {
+      this.schedulerDropdown.addOption(scheduler.name, scheduler.displayName);
+    }
+    this.schedulerDropdown.setValue(overrides.scheduler ?? "");
+    contentEl.createEl("br");
+
+    //
+    // A-Factor
+
+    contentEl.appendText("A-Factor: ");
+    this.afactorText = this.createOptionalText(contentEl, overrides.afactor);
+
+    //
+    // Interval Bounds
+
+    contentEl.appendText("Min Interval: ");
+    this.minIntervalText = this.createOptionalText(
+      contentEl,
+      overrides.minInterval
+    );
+
+    contentEl.appendText("Max Interval: ");
+    this.maxIntervalText = this.createOptionalText(
+      contentEl,
+      overrides.maxInterval
+    );
+  }
+
+  private createOptionalText(contentEl: HTMLElement, value?: number) {
+    const text = new TextComponent(contentEl)
+      .setPlaceholder("Queue Default")
+      .setValue(value === undefined ? "" : value.toString());
+    contentEl.createEl("br");
+    return text;
+  }
+
+  private parseOptional(text: TextComponent): number | undefined {
+    const value = text.getValue().trim();
+    return value === "" ? undefined : Number(value);
+  }
+
+  // Returns null if any of the overrides are invalid.
+  getOverrides(): RowOverrides | null {
+    const overrides: RowOverrides = {
+      scheduler: this.schedulerDropdown.getValue() || undefined,
+      afactor: this.parseOptional(this.afactorText),
+      minInterval: this.parseOptional(this.minIntervalText),
+      maxInterval: this.parseOptional(this.maxIntervalText),
+    };
+
+    if (
+      overrides.afactor !== undefined &&
+      !overrides.afactor.isValidAFactor()
+    ) {
+      LogTo.Console("Invalid a-factor override!", true);
+      return null;
+    }
+
+    const scheduler = overrides.scheduler ?? this.queueScheduler;
+    if (
+      overrides.afactor !== undefined &&
+      !this.plugin.schedulers.hasParam(scheduler, "afactor")
+    ) {
+      LogTo.Console(
+        "The a-factor override only applies to the A-Factor scheduler!",
+        true
+      );
+      return null;
+    }
+
+    for (const interval of [overrides.minInterval, overrides.maxInterval]) {
+      if (interval !== undefined && !interval.isValidInterval()) {
+        LogTo.Console("Invalid interval override!", true);
+        return null;
+      }
+    }
+
+    if (
+      overrides.minInterval !== undefined &&
+      overrides.maxInterval !== undefined &&
+      overrides.minInterval > overrides.maxInterval
+    ) {
+      LogTo.Console("Min interval is greater than max interval!", true);
+      return null;
+    }
+
+    return overrides;
+  }
+}
@@ -0,0 +1,185 @@
+import {
+  debounce,
+  MarkdownPostProcessorContext,
+  MarkdownRenderChild,
+  normalizePath,
+  TAbstractFile,
+  TextComponent,
+} from "obsidian";
+import IW from "../main";
+import { Queue } from "../queue";
+import { MarkdownTable, MarkdownTableRow } from "../markdown";
+import { RepQuery } from "../query";
+import { LinkEx } from "../helpers/link-utils";
+import { LogTo } from "../logger";
+import "../helpers/date-utils";
+import "../helpers/number-utils";
+
+export const QueueBlockLanguage = "iw-queue";
+
+interface QueueBlockOptions {
+  queuePath: string;
+  query: RepQuery;
+}
+
+// Renders iw-queue code blocks as an interactive table of the reps of a
+// queue, sorted by priority. Options:
+//
+// queue: IW-Queue (the loaded queue if missing)
+// query: due this week, priority < 30
+//
+// The block gets rendered again whenever its queue changes.
+export class QueueBlockRenderer {
+  private plugin: IW;
+
+  constructor(plugin: IW) {
+    this.plugin = plugin;
+  }
+
+  // Returns an error message if an option is invalid.
+  private parseOptions(source: string): QueueBlockOptions | string {
+    let queuePath = this.plugin.queue?.queuePath;
+    let query = RepQuery.parse("");
+    for (const line of source.split(/\r?\n/)) {
+      if (line.trim() === "") continue;
+      const idx = line.indexOf(":");
+      if (idx === -1) return `Invalid option: ${line}`;
+      const key = line.substr(0, idx).trim();
+      const value = line.substr(idx + 1).trim();
+
+      if (key === "queue") {
+        const name = value.endsWith(".md") ? value : value + ".md";
+        queuePath = normalizePath(
+          [this.plugin.settings.queueFolderPath, name].join("/")
+        );
+      } else if (key === "query") {
+        query = RepQuery.parse(value);
+      } else return `Unknown option: ${key}`;
+      if (typeof query === "string") return query;
+    }
+
+    if (!queuePath) return "No queue loaded.";
+    return { queuePath, query: query as RepQuery };
+  }
+
+  async render(
+    source: string,
+    el: HTMLElement,
+    ctx: MarkdownPostProcessorContext
+  ) {
+    const options = this.parseOptions(source);
+    if (typeof options === "string") {
+      el.empty();
+      el.createEl("p", { text: "iw-queue: " + options });
+      return;
+    }
+
+    // unloaded along with the block when it leaves the preview
+    const child = new MarkdownRenderChild(el);
+    const refreshLater = debounce(() => this.display(options, el), 500, true);
+    child.registerEvent(
+      this.plugin.app.vault.on("modify", (file: TAbstractFile) => {
+        if (file.path === options.queuePath) refreshLater();
+      })
+    );
+    ctx.addChild(child);
+    await this.display(options, el);
+  }
+
+  private async display(options: QueueBlockOptions, el: HTMLElement) {
+    el.empty();
+    const queue = new Queue(this.plugin, options.queuePath);
+    const table = await queue.loadTable();
+    if (!table) {
+      el.createEl("p", { text: "iw-queue: Failed to load queue table." });
+      return;
+    }
+
+    const rows = table.rows
+      .filter((row) => options.query.matches(row))
+      .sort((a, b) => a.priority - b.priority);
+    const tableEl = el.createEl("table");
+    const header = tableEl.createEl("tr");
+    for (const column of ["Link", "Priority", "Notes", "Interval", "Next Rep"])
+      header.createEl("th", { text: column });
+
+    for (const row of rows) {
+      const tr = tableEl.createEl("tr");
+      if (row.isDue()) tr.style.fontWeight = "bold";
+      this.renderLink(tr.createEl("td"), queue, row);
+
+      new TextComponent(tr.createEl("td"))
+        .setValue(row.priority.toString())
+        .inputEl.addEventListener("change", async (ev) => {
+          const priority = Number((ev.target as HTMLInputElement).value);
+          await this.setPriority(queue, table, row, priority);
+          await this.display(options, el);
+        });
+
+      tr.createEl("td", { text: row.notes });
+      tr.createEl("td", { text: row.interval.toString() });
+
+      const dateInput = new TextComponent(tr.createEl("td")).setValue(
+        row.nextRepDate.formatYYMMDD()
+      ).inputEl;
+      dateInput.type = "date";
+      dateInput.addEventListener("change", async () => {
+        await this.setNextRep(queue, table, row, dateInput.value);
+        await this.display(options, el);
+      });
+    }
+
+    el.createEl("p", {
+      text: `${rows.length} of ${table.rows.length} reps.`,
+    });
+  }
+
+  private renderLink(td: HTMLElement, queue: Queue, row: MarkdownTableRow) {
+    const target = LinkEx.removeAlias(row.link);
+    const alias = row.link.substr(target.length + 1);
+    const a = td.createEl("a", {
+      text: alias || target,
+      cls: "internal-link",
+      attr: { "data-href": target, href: target },
+    });
+    a.addEventListener("click", async (ev) => {
+      ev.preventDefault();
+      await this.plugin.app.workspace.openLinkText(
+        target,
+        queue.queuePath,
+        ev.ctrlKey || ev.metaKey
+      );
+    });
+  }
+
+  private async setPriority(
+    queue: Queue,
+    table: MarkdownTable,
+    row: MarkdownTableRow,
+    priority: number
+  ) {
+    if (!priority.isValidPriority()) {
+      LogTo.Console("Invalid priority!", true);
+      return;
+    }
+    await queue.setPriority(table, row, priority);
+  }
+
+  private async setNextRep(
+    queue: Queue,
+    table: MarkdownTable,
+    row: MarkdownTableRow,
+    value: string
+  ) {
+    const date = new Date(value);
+    if (!date.isValid()) {
+      LogTo.Console("Failed to parse next repetition date!", true);
+      return;
+    }
+    await queue.manualSchedule(table, row, {
+      nextRepDate: date,
+      interval: row.interval,
+      priority: row.priority,
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { FuzzySuggestModal } from "obsidian";
+import path from "path";
+import IW from "../main";
+
+// Chooses one of the queues in the queue folder.
+export class QueuePickerModal extends FuzzySuggestModal<string> {
+  plugin: IW;
+  private onChoose: (queuePath: string) => Promise<void>;
+  private exclude?: string;
+
+  constructor(
+    plugin: IW,
+    onChoose: (queuePath: string) => Promise<void>,
+    exclude?: string
+  ) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.onChoose = onChoose;
+    this.exclude = exclude;
+    this.setPlaceholder("Choose a queue");
+  }
+
+  async onChooseItem(item: string, _: MouseEvent | KeyboardEvent) {
+    await this.onChoose(item);
+  }
+
+  getItems(): string[] {
+    return this.plugin.getQueuePaths().filter((p) => p !== this.exclude);
+  }
+
+  getItemText(item: string) {
+    return path.relative(this.plugin.settings.queueFolderPath, item);
+  }
+}
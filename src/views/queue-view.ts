@@ -0,0 +1,248 @@
+import {
+  debounce,
+  DropdownComponent,
+  ItemView,
+  Menu,
+  TAbstractFile,
+  TextComponent,
+  WorkspaceLeaf,
+} from "obsidian";
+import path from "path";
+import IW from "../main";
+import { Queue } from "../queue";
+import { MarkdownTable, MarkdownTableRow } from "../markdown";
+import { LinkEx } from "../helpers/link-utils";
+import { EditDataModal } from "./edit-data";
+import { QueuePickerModal } from "./queue-picker";
+import "../helpers/date-utils";
+
+export const QueueViewType = "iw-queue";
+
+type SortKey = "priority" | "due" | "interval";
+type DueFilter = "all" | "due" | "notDue";
+
+export class QueueView extends ItemView {
+  // rendering thousands of rows makes the sidebar sluggish
+  private static readonly maxRows = 500;
+  private plugin: IW;
+  private sortKey: SortKey = "priority";
+  private dueFilter: DueFilter = "all";
+  private filterText: TextComponent;
+  private listEl: HTMLDivElement;
+  private table?: MarkdownTable;
+  private refreshLater = debounce(() => this.refresh(), 500, true);
+
+  constructor(leaf: WorkspaceLeaf, plugin: IW) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return QueueViewType;
+  }
+
+  getDisplayText() {
+    return "IW Queue";
+  }
+
+  getIcon() {
+    return "sheets-in-box";
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    //
+    // Sorting
+
+    contentEl.appendText("Sort by: ");
+    new DropdownComponent(contentEl)
+      .addOption("priority", "Priority")
+      .addOption("due", "Due Date")
+      .addOption("interval", "Interval")
+      .setValue(this.sortKey)
+      .onChange((value: SortKey) => {
+        this.sortKey = value;
+        this.render();
+      });
+    contentEl.createEl("br");
+
+    //
+    // Filters
+
+    contentEl.appendText("Show: ");
+    new DropdownComponent(contentEl)
+      .addOption("all", "All")
+      .addOption("due", "Due")
+      .addOption("notDue", "Not Due")
+      .setValue(this.dueFilter)
+      .onChange((value: DueFilter) => {
+        this.dueFilter = value;
+        this.render();
+      });
+    contentEl.createEl("br");
+
+    contentEl.appendText("Filter: ");
+    this.filterText = new TextComponent(contentEl)
+      .setPlaceholder("Text or #tag")
+      .onChange(() => this.render());
+    contentEl.createEl("br");
+
+    this.listEl = contentEl.createDiv();
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => this.onModified(file))
+    );
+    await this.refresh();
+  }
+
+  private onModified(file: TAbstractFile) {
+    if (file.path === this.plugin.queue?.queuePath) this.refreshLater();
+  }
+
+  async refresh() {
+    this.table = await this.plugin.queue?.loadTable();
+    this.render();
+  }
+
+  private matches(row: MarkdownTableRow, filter: string) {
+    if (this.dueFilter === "due" && !row.isDue()) return false;
+    if (this.dueFilter === "notDue" && row.isDue()) return false;
+    if (filter === "") return true;
+    if (filter.startsWith("#"))
+      return row.getTags().some((tag) => tag.toLowerCase() === filter);
+    return (
+      row.link.toLowerCase().contains(filter) ||
+      row.notes.toLowerCase().contains(filter)
+    );
+  }
+
+  private getRows(): MarkdownTableRow[] {
+    const filter = this.filterText.getValue().trim().toLowerCase();
+    const rows = this.table.rows.filter((row) => this.matches(row, filter));
+    const keys: Record<SortKey, (row: MarkdownTableRow) => number> = {
+      priority: (row) => row.priority,
+      due: (row) => row.nextRepDate.getTime(),
+      interval: (row) => row.interval,
+    };
+    const key = keys[this.sortKey];
+    return rows.sort((a, b) => key(a) - key(b));
+  }
+
+  private render() {
+    this.listEl.empty();
+    if (!this.table) {
+      this.listEl.createEl("p", { text: "No queue loaded." });
+      return;
+    }
+
+    this.listEl.createEl("h4", {
+      text: path.relative(
+        this.plugin.settings.queueFolderPath,
+        this.plugin.queue.queuePath
+      ),
+    });
+
+    const rows = this.getRows();
+    const shown = rows.slice(0, QueueView.maxRows);
+    this.listEl.createEl("p", {
+      text: `Showing ${shown.length} of ${this.table.rows.length} reps.`,
+    });
+
+    const tableEl = this.listEl.createEl("table");
+    const header = tableEl.createEl("tr");
+    for (const column of ["Link", "Priority", "Next Rep", "Interval"])
+      header.createEl("th", { text: column });
+
+    shown.forEach((row, i) => {
+      const tr = tableEl.createEl("tr");
+      tr.createEl("td", { text: row.link });
+      tr.createEl("td", { text: row.priority.toString() });
+      tr.createEl("td", { text: row.nextRepDate.formatYYMMDD() });
+      tr.createEl("td", { text: row.interval.toString() });
+      if (row.isDue()) tr.addClass("is-active");
+
+      tr.addEventListener("click", async () => await this.open(row));
+      tr.addEventListener("contextmenu", (ev) => this.showMenu(ev, row));
+
+      // priorities only follow the order of the list when sorted by them
+      if (this.sortKey !== "priority") return;
+      tr.draggable = true;
+      tr.addEventListener("dragstart", (ev) =>
+        ev.dataTransfer.setData("text/plain", i.toString())
+      );
+      tr.addEventListener("dragover", (ev) => ev.preventDefault());
+      tr.addEventListener("drop", async (ev) => {
+        ev.preventDefault();
+        const from = Number(ev.dataTransfer.getData("text/plain"));
+        await this.move(shown, from, i);
+      });
+    });
+  }
+
+  // Gives the dragged row a priority between its new neighbors.
+  private async move(rows: MarkdownTableRow[], from: number, to: number) {
+    if (from === to || !rows[from]) return;
+    const others = rows.filter((_, i) => i !== from);
+    const target = rows[to];
+    const idx = others.indexOf(target) + (from < to ? 1 : 0);
+    const above = others[idx - 1]?.priority ?? 0;
+    const below = others[idx]?.priority ?? 100;
+    await this.plugin.queue.setPriority(
+      this.table,
+      rows[from],
+      (above + below) / 2
+    );
+    this.render();
+  }
+
+  private async open(row: MarkdownTableRow) {
+    await this.app.workspace.openLinkText(
+      LinkEx.removeAlias(row.link),
+      this.plugin.queue.queuePath,
+      false
+    );
+  }
+
+  private showMenu(ev: MouseEvent, row: MarkdownTableRow) {
+    const queue = this.plugin.queue;
+    new Menu(this.app)
+      .addItem((item) =>
+        item.setTitle("Open").onClick(async () => await this.open(row))
+      )
+      .addItem((item) =>
+        item.setTitle("Make current rep").onClick(async () => {
+          await queue.makeCurrent(this.table, row);
+          this.render();
+        })
+      )
+      .addItem((item) =>
+        item
+          .setTitle("Edit rep data")
+          .onClick(() => new EditDataModal(this.plugin, row, this.table).open())
+      )
+      .addItem((item) =>
+        item.setTitle("Dismiss").onClick(async () => {
+          await queue.dismiss(this.table, row);
+          this.render();
+        })
+      )
+      .addItem((item) =>
+        item.setTitle("Move to queue").onClick(() =>
+          new QueuePickerModal(
+            this.plugin,
+            async (queuePath) => {
+              await queue.moveTo(
+                this.table,
+                row,
+                new Queue(this.plugin, queuePath)
+              );
+              this.render();
+            },
+            queue.queuePath
+          ).open()
+        )
+      )
+      .showAtMouseEvent(ev);
+  }
+}
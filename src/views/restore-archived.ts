@@ -0,0 +1,30 @@
+import { FuzzySuggestModal } from "obsidian";
+import IW from "../main";
+import { MarkdownTable, MarkdownTableRow } from "../markdown";
+
+export class RestoreArchivedModal extends FuzzySuggestModal<MarkdownTableRow> {
+  plugin: IW;
+  private table: MarkdownTable;
+
+  constructor(plugin: IW, table: MarkdownTable) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.table = table;
+    this.setPlaceholder("Choose an archived rep to restore");
+  }
+
+  async onChooseItem(item: MarkdownTableRow, _: MouseEvent | KeyboardEvent) {
+    await this.plugin.queue.restoreArchived(item, this.table);
+  }
+
+  // most recently archived first
+  getItems(): MarkdownTableRow[] {
+    return [...this.table.archive].reverse();
+  }
+
+  getItemText(item: MarkdownTableRow) {
+    const archived = item.fields[MarkdownTable.ArchivedColumn] ?? "";
+    const reason = item.fields[MarkdownTable.ReasonColumn] ?? "";
+    return `${item.link} (${reason} ${archived}, priority ${item.priority})`;
+  }
+}
@@ -81,8 +81,9 @@ export class IWSettingsTab extends PluginSettingTab {
       .setName("Default Scheduler")
       .setDesc("The default scheduler to use for newly created queues.")
       .addDropdown((comp) => {
-        comp.addOption("afactor", "A-Factor Scheduler");
-        comp.addOption("simple", "Simple Scheduler");
+        for (const scheduler of this.plugin.schedulers.getAll()) {
+          comp.addOption(scheduler.name, scheduler.displayName);
+        }
         comp.setValue(String(settings.defaultQueueType)).onChange((value) => {
           settings.defaultQueueType = String(value);
           this.plugin.saveData(settings);
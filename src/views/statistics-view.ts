@@ -0,0 +1,138 @@
+import {
+  debounce,
+  DropdownComponent,
+  ItemView,
+  TAbstractFile,
+  WorkspaceLeaf,
+} from "obsidian";
+import path from "path";
+import IW from "../main";
+import { Queue } from "../queue";
+import { ReviewLog } from "../review-log";
+import { HistogramBucket, QueueStatistics } from "../statistics";
+import "../helpers/date-utils";
+import "../helpers/number-utils";
+
+export const StatisticsViewType = "iw-statistics";
+
+export class StatisticsView extends ItemView {
+  private plugin: IW;
+  private queuePath: string;
+  private queueDropdown: DropdownComponent;
+  private statsEl: HTMLDivElement;
+  private refreshLater = debounce(() => this.refresh(), 1000, true);
+
+  constructor(leaf: WorkspaceLeaf, plugin: IW) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return StatisticsViewType;
+  }
+
+  getDisplayText() {
+    return "IW Statistics";
+  }
+
+  getIcon() {
+    return "sheets-in-box";
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Queue Statistics" });
+
+    //
+    // Queue
+
+    contentEl.appendText("Queue: ");
+    const queuePaths = this.plugin.getQueuePaths();
+    this.queuePath = this.plugin.queue?.queuePath ?? queuePaths[0];
+    if (this.queuePath && !queuePaths.includes(this.queuePath))
+      queuePaths.push(this.queuePath);
+    this.queueDropdown = new DropdownComponent(contentEl);
+    for (const queuePath of queuePaths) {
+      this.queueDropdown.addOption(
+        queuePath,
+        path.relative(this.plugin.settings.queueFolderPath, queuePath)
+      );
+    }
+    if (this.queuePath) this.queueDropdown.setValue(this.queuePath);
+    this.queueDropdown.onChange(async (value) => {
+      this.queuePath = value;
+      await this.refresh();
+    });
+
+    this.statsEl = contentEl.createDiv();
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => this.onModified(file))
+    );
+    await this.refresh();
+  }
+
+  private onModified(file: TAbstractFile) {
+    if (!this.queuePath) return;
+    const queueFile = this.queuePath;
+    const logFile = ReviewLog.getLogPath(queueFile);
+    if (file.path === queueFile || file.path === logFile) this.refreshLater();
+  }
+
+  async refresh() {
+    this.statsEl.empty();
+    if (!this.queuePath) {
+      this.statsEl.createEl("p", { text: "No queue loaded." });
+      return;
+    }
+
+    const table = await new Queue(this.plugin, this.queuePath).loadTable();
+    if (!table) {
+      this.statsEl.createEl("p", { text: "Failed to load queue table." });
+      return;
+    }
+
+    const history = await this.plugin.reviewLog.read(this.queuePath);
+    const stats = QueueStatistics.compute(table, history);
+    const average = stats.averageDaysBetweenReps;
+
+    const summary = this.statsEl.createEl("table");
+    for (const [label, value] of [
+      ["Total reps", stats.total.toString()],
+      ["Due today", stats.dueToday.toString()],
+      ["Overdue", stats.overdue.toString()],
+      [
+        "Average days between reps",
+        average === undefined ? "No history" : average.round(1).toString(),
+      ],
+    ]) {
+      const tr = summary.createEl("tr");
+      tr.createEl("td", { text: label });
+      tr.createEl("td", { text: value });
+    }
+
+    this.renderHistogram("Priorities", stats.priorities);
+    this.renderHistogram("Intervals (days)", stats.intervals);
+    this.renderHistogram(
+      "Reps per day",
+      stats.repsPerDay.map((day) => ({
+        label: day.date.formatYYMMDD(),
+        count: day.reps,
+      }))
+    );
+  }
+
+  private renderHistogram(title: string, buckets: HistogramBucket[]) {
+    this.statsEl.createEl("h4", { text: title });
+    const max = Math.max(1, ...buckets.map((bucket) => bucket.count));
+    const tableEl = this.statsEl.createEl("table");
+    for (const bucket of buckets) {
+      const tr = tableEl.createEl("tr");
+      tr.createEl("td", { text: bucket.label });
+      tr.createEl("td", { text: bucket.count.toString() });
+      tr.createEl("td", {
+        text: "█".repeat(Math.round((bucket.count / max) * 20)),
+      });
+    }
+  }
+}
@@ -3,6 +3,7 @@ import "../helpers/str-utils";
 import { normalizePath, parseLinktext } from "obsidian";
 import IW from "../main";
 import path from "path";
+import { LinkEx } from "../helpers/link-utils";
 
 export class StatusBar {
   private statusBarAdded: boolean;
@@ -52,7 +53,7 @@ export class StatusBar {
 
   updateCurrentRep(row: MarkdownTableRow) {
     if (row) {
-      const { path, subpath } = parseLinktext(row.link);
+      const { path, subpath } = parseLinktext(LinkEx.removeAlias(row.link));
       const file = this.plugin.app.metadataCache.getFirstLinkpathDest(
         path,
         this.plugin.queue.queuePath